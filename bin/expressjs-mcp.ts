@@ -10,180 +10,76 @@
  *   expressjs-mcp [options]
  *
  * Options:
- *   --url <url>    Express MCP URL (default: http://localhost:3000/mcp)
- *   --debug        Enable debug logging
- *   --help         Show help
+ *   --url <url>       Express MCP URL (default: http://localhost:3000/mcp)
+ *   --header <h>      Header sent with every request, e.g. "Authorization: Bearer x"
+ *   --debug           Enable debug logging
+ *   --help            Show help
  *
  * Environment Variables:
  *   EXPRESS_MCP_URL - URL of Express MCP server
+ *   EXPRESS_MCP_HEADER_<NAME> - Header to send, e.g. EXPRESS_MCP_HEADER_X_API_KEY
  *   DEBUG - Enable debug mode
  */
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-	CallToolRequestSchema,
-	ErrorCode,
-	ListToolsRequestSchema,
-	McpError,
-} from "@modelcontextprotocol/sdk/types.js";
+import { RemoteToolSource, createProtocolServer } from "../src";
+import { parseHeader } from "../src/headers";
 
 interface ExpressMCPServerOptions {
 	baseUrl?: string;
+	/** Sent with every gateway request; the gateway forwards its allow-list */
+	headers?: Record<string, string>;
 	debug?: boolean;
 }
 
 class ExpressMCPServer {
-	private server: Server;
+	private source: RemoteToolSource;
 	private baseUrl: string;
 	private debug: boolean;
-	private tools: any[] = [];
 
 	constructor(options: ExpressMCPServerOptions = {}) {
 		this.baseUrl = options.baseUrl || "http://localhost:3000/mcp";
 		this.debug = options.debug || false;
-
-		this.server = new Server(
-			{
-				name: "expressjs-mcp",
-				version: "1.0.0",
-			},
-			{
-				capabilities: {
-					tools: {},
-					resources: {},
-				},
-			},
-		);
-
-		this.setupHandlers();
+		this.source = new RemoteToolSource(this.baseUrl, {
+			headers: options.headers,
+		});
 		this.log("Express MCP Server initialized");
 	}
 
-	private log(...args: any[]) {
+	private log(...args: unknown[]) {
 		if (this.debug) {
 			console.error("[Express MCP]", ...args);
 		}
 	}
 
-	private async loadTools(): Promise<any[]> {
-		try {
-			const response = await fetch(`${this.baseUrl}/tools`);
-			const data = await response.json();
-			this.tools = data.tools || [];
-			this.log(`Loaded ${this.tools.length} tools from ${this.baseUrl}`);
-			return this.tools;
-		} catch (error) {
-			this.log("Failed to load tools:", error);
-			this.tools = [];
-			return [];
-		}
-	}
-
-	private async invokeTool(toolName: string, args: any): Promise<any> {
-		this.log(`Invoking tool: ${toolName}`, args);
-
-		try {
-			const response = await fetch(`${this.baseUrl}/invoke`, {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify({
-					toolName,
-					args: args || {},
-				}),
-			});
-
-			if (!response.ok) {
-				const errorText = await response.text();
-				throw new Error(`HTTP ${response.status}: ${errorText}`);
-			}
-
-			const result = await response.json();
-			return result;
-		} catch (error) {
-			this.log("Tool invocation error:", error);
-			throw new McpError(
-				ErrorCode.InternalError,
-				`Tool execution failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-			);
-		}
-	}
-
-	private setupHandlers() {
-		// Handle tool listing
-		this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-			await this.loadTools();
-
-			return {
-				tools: this.tools.map((tool) => ({
-					name: tool.name || tool.title,
-					description: tool.description || `Invoke ${tool.title}`,
-					inputSchema: tool.inputSchema || {
-						type: "object",
-						properties: {},
-						additionalProperties: true,
-					},
-				})),
-			};
-		});
-
-		// Handle tool invocation
-		this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-			const { name, arguments: args } = request.params;
-
-			this.log(`Invoking tool: ${name}`, args);
-
-			try {
-				const result = await this.invokeTool(name, args || {});
-
-				if (result.ok) {
-					return {
-						content: [
-							{
-								type: "text",
-								text:
-									typeof result.result === "string"
-										? result.result
-										: JSON.stringify(result.result, null, 2),
-							},
-						],
-					};
-				}
-
-				throw new McpError(
-					ErrorCode.InternalError,
-					result.error || "Tool execution failed",
-				);
-			} catch (error: any) {
-				this.log("Tool invocation error:", error);
-				if (error instanceof McpError) {
-					throw error;
-				}
-				throw new McpError(
-					ErrorCode.InternalError,
-					`Tool execution failed: ${error.message}`,
-				);
-			}
-		});
-
-		this.log("Request handlers configured");
-	}
-
 	async start() {
-		const transport = new StdioServerTransport();
-		await this.server.connect(transport);
+		// Tools are fetched from the gateway on every tools/list
+		// stdout carries the protocol, so debug output goes to stderr
+		const server = createProtocolServer(this.source, {
+			validateOutput: this.debug,
+			log: { info: console.error, error: console.error },
+		});
+		server.onerror = (error) => this.log("Protocol error:", error);
+		await server.connect(new StdioServerTransport());
 		this.log("MCP Server connected via stdio");
 		console.error("Express MCP Server ready");
 		console.error(`Connected to: ${this.baseUrl}`);
 	}
 }
 
+// `EXPRESS_MCP_HEADER_X_API_KEY=abc` → `x-api-key: abc`
+const HEADER_ENV = /^EXPRESS_MCP_HEADER_(\w+)$/;
+const headers: Record<string, string> = {};
+for (const [key, value] of Object.entries(process.env)) {
+	const name = HEADER_ENV.exec(key)?.[1];
+	if (name && value) headers[name.toLowerCase().replace(/_/g, "-")] = value;
+}
+
 // Parse command line arguments
 const args = process.argv.slice(2);
 const options: ExpressMCPServerOptions = {
 	baseUrl: process.env.EXPRESS_MCP_URL || "http://localhost:3000/mcp",
+	headers,
 	debug: process.env.DEBUG === "true",
 };
 
@@ -192,6 +88,16 @@ for (let i = 0; i < args.length; i++) {
 		case "--url":
 			options.baseUrl = args[++i];
 			break;
+		case "--header":
+		case "-H":
+			try {
+				const [name, value] = parseHeader(args[++i] ?? "");
+				headers[name] = value;
+			} catch (error) {
+				console.error((error as Error).message);
+				process.exit(1);
+			}
+			break;
 		case "--debug":
 			options.debug = true;
 			break;
@@ -203,19 +109,23 @@ Usage:
   expressjs-mcp [options]
 
 Options:
-  --url <url>    Express MCP URL (default: http://localhost:3000/mcp)
-  --debug        Enable debug logging
-  --help         Show help
+  --url <url>         Express MCP URL (default: http://localhost:3000/mcp)
+  -H, --header <h>    Header sent with every request ("Name: value"), repeatable
+  --debug             Enable debug logging
+  --help              Show help
 
 Environment Variables:
   EXPRESS_MCP_URL - URL of Express MCP server
+  EXPRESS_MCP_HEADER_<NAME> - Header to send; underscores become dashes
   DEBUG - Enable debug mode
 
 Examples:
   expressjs-mcp
   expressjs-mcp --url http://localhost:8080/mcp
+  expressjs-mcp --header "Authorization: Bearer user-token-123"
   expressjs-mcp --debug
   EXPRESS_MCP_URL=http://api.example.com/mcp expressjs-mcp
+  EXPRESS_MCP_HEADER_X_API_KEY=abc expressjs-mcp
 `);
 			process.exit(0);
 			break;
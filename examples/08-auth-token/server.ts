@@ -206,68 +206,16 @@ app.get(
 	},
 );
 
-// Create ExpressMCP with auth passthrough configuration
+// Create ExpressMCP; the caller's Authorization header reaches the routes
 const mcp = new ExpressMCP(app, {
 	mountPath: "/mcp",
+	forwardHeaders: ["authorization"],
 	logging: {
 		info: (...args) => console.log("[MCP]", ...args),
 		error: (...args) => console.error("[MCP ERROR]", ...args),
 	},
 });
 
-// Override the MCP invoke endpoint to pass through auth headers
-app.post("/mcp/invoke", async (req: Request, res: Response) => {
-	const { toolName, args } = req.body;
-
-	// Extract auth header from the MCP request
-	const authHeader = req.headers.authorization;
-
-	// Find the route
-	const tools = mcp.listTools();
-	const tool = tools.find(
-		(t: any) => t.name === toolName || t.title === toolName,
-	);
-
-	if (!tool) {
-		return res.status(404).json({ error: "Tool not found" });
-	}
-
-	// Create headers object with auth passthrough
-	const headers: Record<string, string> = {
-		"content-type": "application/json",
-	};
-
-	if (authHeader) {
-		headers.authorization = authHeader;
-	}
-
-	try {
-		// Use the dispatcher with auth headers
-		const dispatcher = (mcp as any).dispatcher;
-		const route = (tool as any).route;
-
-		const result = await dispatcher.dispatch(
-			route.method,
-			route.path,
-			args,
-			headers, // Pass auth headers
-			{ timeout: 30000 },
-		);
-
-		res.status(200).json({
-			ok: true,
-			result: result.body,
-			status: result.status,
-		});
-	} catch (error) {
-		console.error("MCP invoke error:", error);
-		res.status(500).json({
-			ok: false,
-			error: (error as Error).message,
-		});
-	}
-});
-
 // Test endpoint to verify auth passthrough
 app.get("/test/auth-info", authenticate, (req: Request, res: Response) => {
 	const user = (req as any).user;
@@ -283,7 +231,7 @@ app.get("/test/auth-info", authenticate, (req: Request, res: Response) => {
 
 async function start() {
 	await mcp.init();
-	mcp.mount("/mcp-base"); // Mount at different path since we override /mcp/invoke
+	mcp.mount();
 
 	const PORT = process.env.PORT || 3008;
 	app.listen(PORT, () => {
@@ -215,6 +215,9 @@ app.get(
 	},
 );
 
+const PORT = 3009;
+const AUTH0_DOMAIN = process.env.AUTH0_DOMAIN;
+
 // Initialize ExpressMCP
 const mcp = new ExpressMCP(app, {
 	mountPath: "/mcp",
@@ -222,12 +225,24 @@ const mcp = new ExpressMCP(app, {
 	exclude: (route) => {
 		return route.path.startsWith("/api/admin/");
 	},
+	// With a tenant configured, the gateway itself is an OAuth protected
+	// resource: MCP clients discover Auth0 and present its access tokens
+	...(AUTH0_DOMAIN && {
+		auth: {
+			oauth: {
+				resource: process.env.MCP_RESOURCE ?? `http://localhost:${PORT}/mcp`,
+				authorizationServers: [`https://${AUTH0_DOMAIN}/`],
+				jwks: `https://${AUTH0_DOMAIN}/.well-known/jwks.json`,
+				audience: process.env.AUTH0_AUDIENCE,
+				rolesClaim: "permissions",
+			},
+		},
+	}),
 });
 
 await mcp.init();
 mcp.mount("/mcp");
 
-const PORT = 3009;
 app.listen(PORT, () => {
 	console.log(`🔐 Auth0-protected API running on http://localhost:${PORT}`);
 	console.log(`📡 MCP tools available at http://localhost:${PORT}/mcp/tools`);
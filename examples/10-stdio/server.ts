@@ -0,0 +1,26 @@
+/**
+ * Example 10: stdio
+ *
+ * Runs the Express app as an MCP server over stdio, so desktop MCP hosts can
+ * launch it directly. No port is bound: tools are dispatched in-process.
+ */
+
+import express from "express";
+import { ExpressMCP } from "../../src";
+
+const app = express();
+app.use(express.json());
+
+app.get("/hello/:name", (req, res) =>
+	res.json({ message: `hello ${req.params.name}` }),
+);
+app.post("/order", (req, res) =>
+	res.status(201).json({ id: "o1", ...req.body }),
+);
+
+const mcp = new ExpressMCP(app);
+await mcp.init();
+await mcp.startStdio();
+
+// stdout carries MCP messages; log to stderr only
+console.error(`Serving ${mcp.listTools().length} tools over stdio`);
@@ -0,0 +1,238 @@
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { OAuthOptions } from "./oauth";
+
+/**
+ * Whoever the gateway authenticated. Routes see it as `req.user`; `scopes`
+ * and `roles` are what per-tool requirements are checked against.
+ */
+export type Principal = {
+	id?: string;
+	scopes?: string[];
+	roles?: string[];
+	[key: string]: unknown;
+};
+
+/**
+ * Resolves the caller of a gateway request, or nothing to reject it with a
+ * 401. A thrown {@link AuthError} is answered with its status; other errors
+ * with a 500.
+ */
+export type Authenticator = (
+	req: Request,
+) => Principal | undefined | null | Promise<Principal | undefined | null>;
+
+export type AuthOptions = {
+	/** Default: on when `authenticate` or `middleware` is set */
+	enabled?: boolean;
+	authenticate?: Authenticator;
+	/**
+	 * Existing Express auth middleware to run instead; it answers rejected
+	 * requests itself, and the principal is read from `req.user`, or from the
+	 * token claims or SDK `AuthInfo` it sets as `req.auth`.
+	 */
+	middleware?: RequestHandler;
+	/** `WWW-Authenticate` value sent with 401s from `authenticate` */
+	challenge?: string;
+	/**
+	 * Act as an OAuth 2.1 protected resource: serve its metadata and accept
+	 * JWT access tokens. `authenticate` and `challenge` override it.
+	 */
+	oauth?: OAuthOptions;
+};
+
+/** A rejected credential, answered per RFC 6750 (`invalid_token`, …). */
+export class AuthError extends Error {
+	readonly status: number;
+
+	constructor(
+		readonly code: string,
+		message: string,
+		/** Scopes that would be enough, for `insufficient_scope` */
+		readonly scopes?: string[],
+	) {
+		super(message);
+		this.name = "AuthError";
+		this.status = code === "insufficient_scope" ? 403 : 401;
+	}
+}
+
+/**
+ * What a tool asks of its caller: every one of `scopes`, and at least one
+ * of `roles`.
+ */
+export type AccessRequirement = {
+	scopes?: string[];
+	roles?: string[];
+};
+
+type Logger = { error: (...a: unknown[]) => void };
+
+const bearerToken = (req: Request) => {
+	const header = req.headers.authorization ?? "";
+	return /^Bearer\s+(.+)$/i.exec(header)?.[1]?.trim();
+};
+
+/** `Authorization: Bearer <token>`, checked by `verify`. */
+export function bearerAuth(
+	verify: (token: string, req: Request) => ReturnType<Authenticator>,
+): Authenticator {
+	return (req) => {
+		const token = bearerToken(req);
+		return token ? verify(token, req) : undefined;
+	};
+}
+
+/** An API key header (default `X-API-Key`), checked by `verify`. */
+export function apiKeyAuth(
+	verify: (key: string, req: Request) => ReturnType<Authenticator>,
+	{ header = "x-api-key" }: { header?: string } = {},
+): Authenticator {
+	return (req) => {
+		const key = req.headers[header.toLowerCase()];
+		return typeof key === "string" && key ? verify(key, req) : undefined;
+	};
+}
+
+/** What `principal` lacks to meet `required`, or undefined if nothing. */
+export function missingAccess(
+	principal: Principal,
+	required: AccessRequirement | undefined,
+) {
+	const scopes = (required?.scopes ?? []).filter(
+		(s) => !principal.scopes?.includes(s),
+	);
+	const roles = required?.roles ?? [];
+	const hasRole =
+		!roles.length || roles.some((r) => principal.roles?.includes(r));
+	if (!scopes.length && hasRole) return undefined;
+	return { scopes, roles: hasRole ? [] : roles };
+}
+
+const scopesOf = ({ scope, scp }: Record<string, unknown>) => {
+	if (typeof scope === "string") return scope.split(" ").filter(Boolean);
+	return Array.isArray(scp) ? scp.map(String) : [];
+};
+
+/** A principal from token claims: `sub`, `scope` or `scp`, and `rolesClaim`. */
+export function claimsPrincipal(
+	claims: Record<string, unknown>,
+	rolesClaim = "roles",
+): Principal {
+	const roles = claims[rolesClaim];
+	return {
+		id: typeof claims.sub === "string" ? claims.sub : undefined,
+		scopes: scopesOf(claims),
+		roles: Array.isArray(roles) ? roles.map(String) : [],
+		claims,
+	};
+}
+
+type AuthenticatedRequest = Request & { user?: Principal; auth?: unknown };
+
+// Principals behind the `req.auth` values SDK transports pass on as `authInfo`
+const authPrincipals = new WeakMap<object, Principal>();
+
+/**
+ * The principal behind a `req.auth` value: one the guard attached, an SDK
+ * `AuthInfo`, or the claims of a verified token (as `express-jwt` sets).
+ */
+export function authPrincipal(auth: unknown): Principal | undefined {
+	if (!auth || typeof auth !== "object") return undefined;
+	const known = authPrincipals.get(auth);
+	if (known) return known;
+	const info = auth as Partial<AuthInfo>;
+	if (typeof info.token === "string" && Array.isArray(info.scopes)) {
+		return (
+			(info.extra?.principal as Principal | undefined) ?? {
+				id: info.clientId,
+				scopes: info.scopes,
+			}
+		);
+	}
+	return claimsPrincipal(auth as Record<string, unknown>);
+}
+
+/** The principal a guarded gateway request was authenticated as. */
+export function principalOf(req: Request): Principal | undefined {
+	const { user, auth } = req as AuthenticatedRequest;
+	return user ?? authPrincipal(auth);
+}
+
+/**
+ * Attach the principal as `req.user`, and for SDK transports to `req.auth`:
+ * an `AuthInfo` carrying it, unless earlier middleware set `req.auth`.
+ */
+function attach(req: Request, principal: Principal) {
+	const authed = req as AuthenticatedRequest;
+	authed.user = principal;
+	if (!authed.auth || typeof authed.auth !== "object") {
+		const info: AuthInfo = {
+			token: bearerToken(req) ?? "",
+			clientId: principal.id ?? "",
+			scopes: principal.scopes ?? [],
+			extra: { principal },
+		};
+		authed.auth = info;
+	}
+	authPrincipals.set(authed.auth as object, principal);
+}
+
+function reject(res: Response, challenge: string, e: AuthError) {
+	const params = [
+		`error="${e.code}"`,
+		`error_description="${e.message.replace(/["\\]/g, "'")}"`,
+		...(e.scopes?.length ? [`scope="${e.scopes.join(" ")}"`] : []),
+	];
+	// A bare scheme takes its first parameter after a space, others a comma
+	const separator = /^\S+$/.test(challenge) ? " " : ", ";
+	res.setHeader("WWW-Authenticate", challenge + separator + params.join(", "));
+	return res
+		.status(e.status)
+		.json({ error: e.code, error_description: e.message });
+}
+
+/**
+ * Express middleware enforcing `options` on the gateway's endpoints, or
+ * undefined when auth is off.
+ */
+export function authGuard(
+	options: AuthOptions | undefined,
+	log: Logger = console,
+): RequestHandler | undefined {
+	const { authenticate, middleware, challenge = "Bearer" } = options ?? {};
+	const enabled = options?.enabled ?? !!(authenticate || middleware);
+	if (!enabled) return undefined;
+	if (!authenticate && !middleware) {
+		throw new Error(
+			"auth.enabled needs auth.authenticate, auth.middleware or auth.oauth",
+		);
+	}
+
+	if (middleware) {
+		return (req, res, next) => {
+			middleware(req, res, (err?: unknown) => {
+				if (err) return next(err);
+				const principal = principalOf(req);
+				if (principal) attach(req, principal);
+				next();
+			});
+		};
+	}
+	return async (req: Request, res: Response, next: NextFunction) => {
+		let principal: Principal | undefined | null;
+		try {
+			principal = await authenticate?.(req);
+		} catch (e: unknown) {
+			if (e instanceof AuthError) return reject(res, challenge, e);
+			log.error("MCP authentication error", e);
+			return res.status(500).json({ error: "Authentication failed" });
+		}
+		if (!principal) {
+			res.setHeader("WWW-Authenticate", challenge);
+			return res.status(401).json({ error: "Unauthorized" });
+		}
+		attach(req, principal);
+		next();
+	};
+}
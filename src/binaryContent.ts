@@ -0,0 +1,85 @@
+/** Inline binary results up to this size; larger ones become resource links. */
+export const DEFAULT_MAX_BINARY_SIZE = 1024 * 1024;
+
+/** Scheme and authority of the URIs resources and binary results are given. */
+export const DEFAULT_RESOURCE_BASE_URI = "express://app";
+
+const TEXT_TYPES = new Set([
+	"application/javascript",
+	"application/graphql",
+	"application/jsonlines",
+	"application/x-ndjson",
+	"application/x-www-form-urlencoded",
+	"application/x-yaml",
+	"application/yaml",
+]);
+
+export const mimeTypeOf = (contentType?: string) =>
+	(contentType ?? "").split(";")[0].trim().toLowerCase();
+
+/** Whether a body of this type is text. A missing type counts as text. */
+export function isTextContentType(contentType?: string) {
+	const type = mimeTypeOf(contentType);
+	return (
+		!type ||
+		type.startsWith("text/") ||
+		/[/+](json|xml)$/.test(type) ||
+		TEXT_TYPES.has(type)
+	);
+}
+
+/**
+ * Decode a response body: parsed JSON when it parses, a string for other
+ * text, and the raw bytes for binary types such as images or PDFs.
+ */
+export function decodeBody(data: Buffer, contentType?: string): unknown {
+	if (!isTextContentType(contentType)) return data;
+	const text = data.toString("utf8");
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+}
+
+/** `express://app` + `/files/a.png?x=1` → `express://app/files/a.png?x=1` */
+export function resourceUri(base: string, url: string) {
+	return `${base.replace(/\/+$/, "")}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+/**
+ * MCP content block for a binary body: `image` and `audio` blocks for those
+ * types, an embedded resource blob otherwise, and a `resource_link` when
+ * the body is larger than `maxSize`.
+ */
+export function binaryContentBlock(
+	data: Buffer,
+	{
+		contentType,
+		uri,
+		name,
+		maxSize = DEFAULT_MAX_BINARY_SIZE,
+	}: { contentType?: string; uri: string; name: string; maxSize?: number },
+) {
+	const mimeType = mimeTypeOf(contentType) || "application/octet-stream";
+	if (data.length > maxSize) {
+		return {
+			type: "resource_link" as const,
+			uri,
+			name,
+			mimeType,
+			size: data.length,
+		};
+	}
+	const base64 = data.toString("base64");
+	if (mimeType.startsWith("image/")) {
+		return { type: "image" as const, data: base64, mimeType };
+	}
+	if (mimeType.startsWith("audio/")) {
+		return { type: "audio" as const, data: base64, mimeType };
+	}
+	return {
+		type: "resource" as const,
+		resource: { uri, mimeType, blob: base64 },
+	};
+}
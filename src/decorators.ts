@@ -7,11 +7,14 @@ import type {
 	Response,
 } from "express";
 import type { z } from "zod";
+import { type RouteDocs, setRouteDocs } from "./routeMetadata";
 
 // Metadata keys for storing decorator information
 const ROUTES_KEY = Symbol("routes");
 const MIDDLEWARES_KEY = Symbol("middlewares");
 const SCHEMA_KEY = Symbol("schema");
+const OPERATION_KEY = Symbol("operation");
+const ACCESS_KEY = Symbol("access");
 
 // Route metadata interface
 export interface RouteMetadata {
@@ -30,6 +33,8 @@ export interface RouteMetadata {
 	summary?: string;
 	tags?: string[];
 	operationId?: string;
+	scopes?: string[];
+	roles?: string[];
 }
 
 // Controller decorator
@@ -53,6 +58,10 @@ function createMethodDecorator(method: RouteMetadata["method"]) {
 			const middlewares =
 				Reflect.getMetadata(MIDDLEWARES_KEY, target, propertyKey) || [];
 			const schema = Reflect.getMetadata(SCHEMA_KEY, target, propertyKey);
+			// `@ApiOperation` below the method decorator has already run
+			const operation =
+				Reflect.getMetadata(OPERATION_KEY, target, propertyKey) || {};
+			const access = Reflect.getMetadata(ACCESS_KEY, target, propertyKey) || {};
 
 			routes.push({
 				method,
@@ -61,6 +70,8 @@ function createMethodDecorator(method: RouteMetadata["method"]) {
 				descriptor,
 				middlewares,
 				schema,
+				...operation,
+				...access,
 			});
 
 			Reflect.defineMetadata(ROUTES_KEY, routes, target);
@@ -179,17 +190,13 @@ export function Schema(schema: {
 }
 
 // API documentation decorators
-export function ApiOperation(options: {
-	summary?: string;
-	description?: string;
-	tags?: string[];
-	operationId?: string;
-}): MethodDecorator {
+export function ApiOperation(options: RouteDocs): MethodDecorator {
 	return (
 		target: object,
 		propertyKey: string | symbol,
 		descriptor: PropertyDescriptor,
 	) => {
+		Reflect.defineMetadata(OPERATION_KEY, options, target, propertyKey);
 		const routes: RouteMetadata[] =
 			Reflect.getMetadata(ROUTES_KEY, target) || [];
 		const route = routes.find((r) => r.propertyKey === String(propertyKey));
@@ -202,6 +209,34 @@ export function ApiOperation(options: {
 	};
 }
 
+// Access decorators: what MCP callers need to see and call the route's tool
+function createAccessDecorator(key: "scopes" | "roles") {
+	return (...values: string[]): MethodDecorator =>
+		(
+			target: object,
+			propertyKey: string | symbol,
+			descriptor: PropertyDescriptor,
+		) => {
+			const access = Reflect.getMetadata(ACCESS_KEY, target, propertyKey) || {};
+			access[key] = [...(access[key] ?? []), ...values];
+			Reflect.defineMetadata(ACCESS_KEY, access, target, propertyKey);
+			const routes: RouteMetadata[] =
+				Reflect.getMetadata(ROUTES_KEY, target) || [];
+			const route = routes.find((r) => r.propertyKey === String(propertyKey));
+
+			if (route) {
+				route[key] = access[key];
+			}
+
+			return descriptor;
+		};
+}
+
+/** The caller needs every one of these scopes */
+export const RequireScopes = createAccessDecorator("scopes");
+/** The caller needs at least one of these roles */
+export const RequireRoles = createAccessDecorator("roles");
+
 // Helper to extract routes from a controller class
 export function getControllerMetadata(controller: object): {
 	basePath: string;
@@ -222,6 +257,15 @@ export function registerController(app: Application, controller: object) {
 		const fullPath = `${basePath}${route.path}`;
 		const handler = route.descriptor.value.bind(controller);
 		const middlewares = route.middlewares || [];
+		// Lets ExpressMCP describe the route's tool and prompt
+		setRouteDocs(handler, {
+			summary: route.summary,
+			description: route.description,
+			tags: route.tags,
+			operationId: route.operationId,
+			scopes: route.scopes,
+			roles: route.roles,
+		});
 
 		// Register route with Express
 		(app as unknown as { [key: string]: (...args: unknown[]) => unknown })[
@@ -0,0 +1,61 @@
+/** Header bags as found on `IncomingMessage`s and SDK request info. */
+export type HeaderBag = Record<string, string | string[] | undefined>;
+
+/**
+ * Caller headers forwarded to routes by default: credentials and tenant
+ * selection. A trailing `*` matches any suffix.
+ */
+export const DEFAULT_FORWARD_HEADERS = [
+	"authorization",
+	"cookie",
+	"x-api-key",
+	"x-tenant-*",
+];
+
+/** Headers that carry credentials; each request has to send its own. */
+export const CREDENTIAL_HEADERS = [
+	"authorization",
+	"cookie",
+	"proxy-authorization",
+	"x-api-key",
+];
+
+/** `headers` without credential headers. */
+export function withoutCredentials(headers: HeaderBag | undefined) {
+	return Object.fromEntries(
+		Object.entries(headers ?? {}).filter(
+			([key]) => !CREDENTIAL_HEADERS.includes(key.toLowerCase()),
+		),
+	);
+}
+
+/** The headers in `headers` that `allow` lists, with lower-case names. */
+export function pickHeaders(
+	headers: HeaderBag | undefined,
+	allow: string[] = DEFAULT_FORWARD_HEADERS,
+): Record<string, string> {
+	const patterns = allow.map((a) => a.toLowerCase());
+	const allowed = (name: string) =>
+		patterns.some((p) =>
+			p.endsWith("*") ? name.startsWith(p.slice(0, -1)) : name === p,
+		);
+	const picked: Record<string, string> = {};
+	for (const [key, value] of Object.entries(headers ?? {})) {
+		const name = key.toLowerCase();
+		if (value === undefined || !allowed(name)) continue;
+		picked[name] = Array.isArray(value)
+			? value.join(name === "cookie" ? "; " : ", ")
+			: value;
+	}
+	return picked;
+}
+
+/** `"X-Api-Key: abc"` → `["x-api-key", "abc"]` */
+export function parseHeader(line: string): [string, string] {
+	const colon = line.indexOf(":");
+	const name = line.slice(0, colon).trim();
+	if (colon < 1 || !/^[\w!#$%&'*+.^`|~-]+$/.test(name)) {
+		throw new Error(`Invalid header '${line}', expected 'Name: value'`);
+	}
+	return [name.toLowerCase(), line.slice(colon + 1).trim()];
+}
@@ -1,5 +1,13 @@
+import { EventEmitter } from "node:events";
 import { PassThrough, Readable } from "node:stream";
 import type { Application, RequestHandler } from "express";
+import { decodeBody } from "./binaryContent";
+import {
+	type ParamLocation,
+	buildUrl,
+	mapArgs,
+	mapSections,
+} from "./paramLocations";
 
 export class InMemoryDispatcher {
 	constructor(private app: Application) {}
@@ -9,14 +17,30 @@ export class InMemoryDispatcher {
 		path: string,
 		payload: unknown,
 		headers: Record<string, string> = {},
-		options: { streaming?: boolean; timeout?: number } = {},
+		options: {
+			streaming?: boolean;
+			timeout?: number;
+			locations?: Record<string, ParamLocation>;
+			sections?: boolean;
+			/** Principal the route sees as `req.user` */
+			user?: unknown;
+		} = {},
 	) {
+		// Route patterns like `/items/:id` take their params from the tool args;
+		// the rest go to the query string or body depending on the method
+		const parts = options.sections
+			? mapSections(method, path, payload)
+			: mapArgs(method, path, payload, options.locations);
+
 		return new Promise<{
 			status: number;
 			headers: Record<string, string>;
+			/** `Buffer` for binary content types */
 			body: unknown;
 			stream?: NodeJS.ReadableStream;
 			isStreaming?: boolean;
+			/** Path and query the request was dispatched to */
+			url: string;
 		}>((resolve, reject) => {
 			const req = new Readable({ read() {} }) as unknown as {
 				method: string;
@@ -24,15 +48,22 @@ export class InMemoryDispatcher {
 				headers: Record<string, string>;
 				push: (chunk: string | null) => void;
 				body?: unknown;
+				user?: unknown;
 			};
 			req.method = method;
-			req.url = path;
-			req.headers = { "content-type": "application/json", ...headers };
+			if (options.user !== undefined) req.user = options.user;
+			req.url = buildUrl(parts.path, parts.query);
+			req.headers = {
+				...(parts.body !== undefined && { "content-type": "application/json" }),
+				...parts.headers,
+				...headers,
+			};
 
 			// For JSON payloads, we need to both set the body and push the data
-			if (payload !== undefined) {
-				const jsonStr = JSON.stringify(payload);
-				req.body = payload; // Set body directly for middleware that expects it
+			const requestBody = parts.body;
+			if (requestBody !== undefined) {
+				const jsonStr = JSON.stringify(requestBody);
+				req.body = requestBody; // Set body directly for middleware that expects it
 				req.push(jsonStr);
 			}
 			req.push(null);
@@ -42,8 +73,12 @@ export class InMemoryDispatcher {
 			let isStreamingResponse = false;
 			let hasEnded = false;
 
-			const res: {
+			// An emitter, so that `stream.pipe(res)` (`res.sendFile`) and
+			// `on-finished` work against it
+			const res: EventEmitter & {
 				statusCode: number;
+				finished: boolean;
+				headersSent: boolean;
 				headers: Record<string, string>;
 				setHeader: (k: string, v: string) => void;
 				getHeader: (k: string) => string | undefined;
@@ -51,8 +86,10 @@ export class InMemoryDispatcher {
 				bodyChunks: Buffer[];
 				write: (chunk: unknown) => boolean;
 				end: (chunk?: unknown) => void;
-			} = {
+			} = Object.assign(new EventEmitter(), {
 				statusCode: 200,
+				finished: false,
+				headersSent: false,
 				headers: {} as Record<string, string>,
 				setHeader(k: string, v: string) {
 					this.headers[k.toLowerCase()] = String(v);
@@ -107,6 +144,8 @@ export class InMemoryDispatcher {
 				end(chunk?: unknown) {
 					if (hasEnded) return;
 					hasEnded = true;
+					this.finished = true;
+					this.headersSent = true;
 
 					// If chunk is provided to end(), treat it as a write call first
 					if (chunk) {
@@ -150,25 +189,23 @@ export class InMemoryDispatcher {
 							body: null,
 							stream: streamBuffer,
 							isStreaming: true,
+							url: req.url,
 						});
 					} else {
-						const bodyStr = Buffer.concat(this.bodyChunks).toString("utf8");
-						let body: unknown = bodyStr;
-						try {
-							body = JSON.parse(bodyStr);
-						} catch (e) {
-							// If JSON parsing fails, return the raw string
-							body = bodyStr;
-						}
 						resolve({
 							status: this.statusCode,
 							headers: this.headers,
-							body,
+							body: decodeBody(
+								Buffer.concat(this.bodyChunks),
+								this.headers["content-type"],
+							),
 							isStreaming: false,
+							url: req.url,
 						});
 					}
+					res.emit("finish");
 				},
-			};
+			});
 
 			// Set timeout if specified
 			const timeout = options.timeout || 30000;
@@ -195,6 +232,7 @@ export class InMemoryDispatcher {
 								headers: res.headers,
 								body: undefined,
 								isStreaming: false,
+								url: req.url,
 							});
 						}
 					},
@@ -213,8 +251,14 @@ export class InMemoryDispatcher {
 		payload: unknown,
 		headers: Record<string, string> = {},
 		timeout?: number,
+		layout: {
+			locations?: Record<string, ParamLocation>;
+			sections?: boolean;
+			user?: unknown;
+		} = {},
 	): Promise<NodeJS.ReadableStream> {
 		const result = await this.dispatch(method, path, payload, headers, {
+			...layout,
 			streaming: true,
 			timeout,
 		});
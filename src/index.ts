@@ -1,8 +1,78 @@
-import type { Application } from "express";
+import { type FSWatcher, watch } from "node:fs";
+import type { Readable, Writable } from "node:stream";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { Application, RequestHandler } from "express";
+import { type AuthOptions, authGuard } from "./auth";
+import { DEFAULT_RESOURCE_BASE_URI, resourceUri } from "./binaryContent";
+import type { HeaderBag } from "./headers";
 import { InMemoryDispatcher } from "./inMemoryDispatcher";
+import type { ProtocolOptions } from "./mcpProtocol";
 import { McpServer } from "./mcpServer";
+import { type OAuthOptions, oauthAuth } from "./oauth";
+import {
+	type OpenApiSource,
+	isOpenApiLocation,
+	loadOpenApi,
+} from "./openapiLoader";
+import type { PromptTemplate } from "./promptRegistry";
+import {
+	type ResourceMutation,
+	type ResourceUpdateMapper,
+	defaultResourceUpdates,
+	observeMutations,
+} from "./resourceUpdates";
 import { RouteIntrospector } from "./routeIntrospector";
-import { SchemaResolver } from "./schemaResolver";
+import { type InputSchemaStyle, SchemaResolver } from "./schemaResolver";
+import type { CallContext, ToolSource } from "./toolSource";
+
+export {
+	callToolResult,
+	createProtocolServer,
+	getPromptResult,
+	listPromptsResult,
+	listResourceTemplatesResult,
+	listResourcesResult,
+	listToolsResult,
+	readResourceResult,
+} from "./mcpProtocol";
+export {
+	type AccessRequirement,
+	AuthError,
+	type AuthOptions,
+	type Authenticator,
+	type Principal,
+	apiKeyAuth,
+	bearerAuth,
+} from "./auth";
+export {
+	type OAuthOptions,
+	jwtAuth,
+	protectedResourceMetadata,
+	resourceMetadataUrl,
+} from "./oauth";
+export { DEFAULT_FORWARD_HEADERS } from "./headers";
+export type { PromptTemplate } from "./promptRegistry";
+export {
+	type ResourceMutation,
+	type ResourceUpdateMapper,
+	defaultResourceUpdates,
+} from "./resourceUpdates";
+export {
+	AccessDeniedError,
+	type CallContext,
+	PromptNotFoundError,
+	type PromptMessages,
+	RemoteToolSource,
+	ResourceNotFoundError,
+	type SourceResource,
+	type SourcePrompt,
+	type SourceResourceTemplate,
+	type SourceTool,
+	type ToolCallResult,
+	ToolNotFoundError,
+	type ToolSource,
+	type RemoteToolSourceOptions,
+} from "./toolSource";
 
 export type RouteInfo = {
 	method: string;
@@ -11,24 +81,140 @@ export type RouteInfo = {
 	handler: (...args: unknown[]) => unknown;
 };
 
+/**
+ * Per-route schema overrides keyed by `"METHOD /path"`. Schemas may be zod
+ * types or plain JSON Schema objects.
+ */
+export type SchemaAnnotation = {
+	description?: string;
+	/** Request body, or query args for body-less methods */
+	input?: unknown;
+	body?: unknown;
+	params?: unknown;
+	query?: unknown;
+	headers?: unknown;
+	output?: unknown;
+	examples?: unknown[];
+	/** Scopes MCP callers need, all of them, to see and call the tool */
+	scopes?: string[];
+	/** Roles MCP callers need, any one of them, to see and call the tool */
+	roles?: string[];
+};
+
 export type ExpressMCPOptions = {
 	mountPath?: string;
-	openapi?: Record<string, unknown>;
-	schemaAnnotations?: Record<string, unknown>;
+	/**
+	 * Keep serving the pre-MCP `GET <mountPath>/tools` and
+	 * `POST <mountPath>/invoke` JSON endpoints next to the Streamable HTTP
+	 * transport (default true)
+	 */
+	legacyEndpoints?: boolean;
+	/**
+	 * Also serve the older HTTP+SSE MCP transport: `GET <mountPath>/sse` for
+	 * the event stream, `POST <mountPath>/messages` for client messages
+	 */
+	sse?: boolean;
+	/**
+	 * OpenAPI document, or a path / `file:` / `http(s):` URL to a YAML or JSON
+	 * spec that is loaded (with external `$ref`s bundled) on `init()`.
+	 */
+	openapi?: OpenApiSource;
+	/** Reload a file-based `openapi` spec and rebuild tools when it changes */
+	watchOpenApi?: boolean;
+	schemaAnnotations?: Record<string, SchemaAnnotation>;
+	/**
+	 * `flat` (default) keeps args at the top level and tags each property with
+	 * `x-in`; `sections` nests them under `params`, `query`, `headers`, `body`.
+	 */
+	inputSchemaStyle?: InputSchemaStyle;
+	/**
+	 * HTTP methods exposed as tools (default GET/POST/PUT/PATCH/DELETE).
+	 * Routes for other methods, such as HEAD or OPTIONS handlers, are ignored.
+	 */
+	methods?: string[];
+	/** Methods an `app.all()` route is exposed as (default: `methods`) */
+	allMethods?: string[];
+	/**
+	 * Path to expose a RegExp route under, e.g. `/v1/status` for
+	 * `/^\/v\d+\/status$/`. It must match the RegExp, since it is also the
+	 * path tools are dispatched to. RegExp routes without one are skipped.
+	 */
+	nameRegExpRoute?: (pattern: RegExp, method: string) => string | undefined;
+	/**
+	 * Also expose GET routes as MCP resources: `true` for all of them, or a
+	 * filter. Static paths become resources (`express://app/status`), paths
+	 * with params resource templates (`/items/:id` →
+	 * `express://app/items/{id}`). They stay tools as well.
+	 */
+	resources?: boolean | ((route: RouteInfo) => boolean);
+	/**
+	 * Resources a successful POST/PUT/PATCH/DELETE changed, as URIs or paths;
+	 * subscribed clients get `notifications/resources/updated` for them.
+	 * Default: the request path and its parents.
+	 */
+	resourceUpdates?: ResourceUpdateMapper;
+	/**
+	 * Publish MCP prompts for routes: `true` for all of them, or a filter.
+	 * Each is built from the route's `@ApiOperation` summary or OpenAPI
+	 * operation, with the tool's inputs as arguments.
+	 */
+	prompts?: boolean | ((route: RouteInfo) => boolean);
+	/** Hand-written prompts, e.g. workflows that reference tools by name */
+	promptTemplates?: PromptTemplate[];
 	include?: (route: RouteInfo) => boolean;
 	exclude?: (route: RouteInfo) => boolean;
-	auth?: { enabled?: boolean };
+	/**
+	 * Authenticate callers of every gateway endpoint: `authenticate` resolves
+	 * a principal (see `bearerAuth` and `apiKeyAuth`), or `middleware` reuses
+	 * existing Express auth, and `oauth` makes the gateway an OAuth protected
+	 * resource. Routes see the principal as `req.user`.
+	 */
+	auth?: AuthOptions;
+	/**
+	 * Headers of the MCP caller (its HTTP request, or the one that opened the
+	 * session) passed on to routes, so auth middleware sees them. Names are
+	 * case-insensitive; a trailing `*` matches any suffix. Default:
+	 * `authorization`, `cookie`, `x-api-key` and `x-tenant-*`.
+	 */
+	forwardHeaders?: string[];
+	/**
+	 * Route statuses reported as failed tool calls: `isError` MCP results and
+	 * `ok: false` from `/invoke`. Default: anything outside 2xx.
+	 */
+	isErrorStatus?: (status: number) => boolean;
+	/**
+	 * Binary responses (images, audio, PDFs…) up to this many bytes are
+	 * inlined in tool results (default 1 MiB). Larger ones become links to the
+	 * route's resource, or errors for routes that are not resources.
+	 */
+	maxBinarySize?: number;
+	/** Base of resource URIs (default `express://app`) */
+	resourceBaseUri?: string;
+	/**
+	 * Close Streamable HTTP sessions idle for this many ms (default 30
+	 * minutes; 0 keeps them until the client ends them)
+	 */
+	sessionTimeout?: number;
+	/** Validate JSON tool results against their `outputSchema` and log mismatches */
+	debug?: boolean;
 	logging?: {
 		info: (...a: unknown[]) => void;
 		error: (...a: unknown[]) => void;
+		warn?: (...a: unknown[]) => void;
 	};
 };
 
-export class ExpressMCP {
+export class ExpressMCP implements ToolSource {
 	private server: McpServer;
 	private dispatcher: InMemoryDispatcher;
 	private introspector: RouteIntrospector;
 	private schemas: SchemaResolver;
+	private watchers: FSWatcher[] = [];
+	private pendingReload: NodeJS.Timeout | undefined;
+	/** How MCP results are built; reused by `MCPServer` in local mode */
+	readonly protocolOptions: ProtocolOptions;
+	private guard: RequestHandler | undefined;
+	private oauth: OAuthOptions | undefined;
 
 	constructor(
 		private app: Application,
@@ -36,24 +222,208 @@ export class ExpressMCP {
 	) {
 		this.introspector = new RouteIntrospector(app);
 		this.dispatcher = new InMemoryDispatcher(app);
-		this.schemas = new SchemaResolver(options);
-		this.server = new McpServer(this.dispatcher, this.schemas, options.logging);
+		this.schemas = new SchemaResolver({
+			...options,
+			openapi: isOpenApiLocation(options.openapi) ? undefined : options.openapi,
+		});
+		this.protocolOptions = {
+			validateOutput: options.debug,
+			log: options.logging,
+			isErrorStatus: options.isErrorStatus,
+			maxBinarySize: options.maxBinarySize,
+			resourceBaseUri: options.resourceBaseUri,
+			sessionTimeout: options.sessionTimeout,
+		};
+		const { oauth, ...auth } = options.auth ?? {};
+		this.guard = authGuard(
+			oauth ? { ...oauthAuth(oauth), ...auth } : auth,
+			options.logging,
+		);
+		this.oauth = this.guard && oauth;
+		this.server = new McpServer(
+			this.dispatcher,
+			this.schemas,
+			options.logging,
+			this.protocolOptions,
+			options.forwardHeaders,
+			!!this.guard,
+		);
+		if (options.resources) {
+			// Both MCP dispatches and regular HTTP traffic pass through here
+			observeMutations(
+				app,
+				(mutation) => this.onMutation(mutation),
+				(handler) => this.server.ownsHandler(handler),
+			);
+		}
+	}
+
+	private onMutation(mutation: ResourceMutation) {
+		if (this.server.isErrorStatus(mutation.status)) return;
+		const map = this.options.resourceUpdates ?? defaultResourceUpdates;
+		let targets: string[] | undefined;
+		try {
+			targets = map(mutation);
+		} catch (e) {
+			(this.options.logging ?? console).error("resourceUpdates failed", e);
+			return;
+		}
+		const base = this.options.resourceBaseUri ?? DEFAULT_RESOURCE_BASE_URI;
+		this.server.resourcesUpdated(
+			(targets ?? []).map((t) =>
+				t.startsWith("/") ? resourceUri(base, t) : t,
+			),
+		);
 	}
 
 	async init() {
-		const routes = this.introspector.listRoutes(this.options);
-		await this.server.loadRoutes(routes);
+		await this.loadOpenApi();
+		// The gateway's own routes are there once mounted; never expose them
+		const routes = this.introspector
+			.listRoutes(this.options)
+			.filter((r) => !this.server.ownsHandler(r.handler));
+		const { prompts } = this.options;
+		await this.server.loadRoutes(routes, {
+			resources: routes.filter((r) => this.isResource(r)),
+			prompts: prompts
+				? routes.filter((r) => prompts === true || prompts(r))
+				: [],
+			promptTemplates: this.options.promptTemplates,
+		});
+	}
+
+	private isResource(route: RouteInfo) {
+		const { resources } = this.options;
+		if (route.method !== "GET" || !resources) return false;
+		return resources === true || resources(route);
+	}
+
+	/** Stop watching OpenAPI files and close open MCP sessions. */
+	async close() {
+		this.unwatch();
+		await this.server.close();
+	}
+
+	private unwatch() {
+		for (const watcher of this.watchers) watcher.close();
+		this.watchers = [];
+		clearTimeout(this.pendingReload);
+		this.pendingReload = undefined;
+	}
+
+	private async loadOpenApi() {
+		const source = this.options.openapi;
+		if (!isOpenApiLocation(source)) return;
+		const { doc, files } = await loadOpenApi(source);
+		this.schemas.setOpenApi(doc);
+		if (this.options.watchOpenApi) this.watchFiles(files);
+	}
+
+	private watchFiles(files: string[]) {
+		this.unwatch();
+		const log = this.options.logging ?? console;
+		const reload = () => {
+			clearTimeout(this.pendingReload);
+			// Editors fire several events per save; settle before reloading
+			this.pendingReload = setTimeout(() => {
+				this.init().then(
+					() => log.info("OpenAPI spec reloaded"),
+					(e) => log.error("OpenAPI reload failed", e),
+				);
+			}, 50);
+		};
+		for (const file of files) {
+			this.watchers.push(watch(file, { persistent: false }, reload));
+		}
 	}
 
 	mount(path = this.options.mountPath ?? "/mcp") {
-		this.server.mount(this.app, path);
+		this.server.mount(this.app, path, {
+			legacy: this.options.legacyEndpoints,
+			sse: this.options.sse,
+			auth: this.guard,
+			oauth: this.oauth,
+		});
 	}
 
 	async startStandalone({ port = 7878 }: { port?: number } = {}) {
-		await this.server.listen(port);
+		await this.server.listen(port, {
+			auth: this.guard,
+			oauth: this.oauth,
+		});
+	}
+
+	/**
+	 * Serve MCP over stdio from this process, without binding a port. Call
+	 * `init()` first. stdout then carries protocol messages, so log to stderr.
+	 * `headers` are sent with every call, as if the client had sent them.
+	 */
+	async startStdio({
+		stdin = process.stdin,
+		stdout = process.stdout,
+		headers,
+	}: { stdin?: Readable; stdout?: Writable; headers?: HeaderBag } = {}) {
+		await this.server.connect(new StdioServerTransport(stdin, stdout), {
+			headers,
+		});
+	}
+
+	/**
+	 * Invoke a tool in-process. Resolves to the same envelope as
+	 * `POST <mountPath>/invoke`: `{ ok, result, status }`, where `ok` is false
+	 * for error statuses.
+	 */
+	async invoke(toolName: string, args: unknown = {}, context?: CallContext) {
+		const rsp = await this.callTool(toolName, args, context);
+		return {
+			ok: !this.server.isErrorStatus(rsp.status),
+			result: rsp.body,
+			status: rsp.status,
+			...(rsp.streaming && { streaming: true }),
+		};
 	}
 
-	listTools() {
-		return this.server.listTools();
+	listTools(context?: CallContext) {
+		return this.server.listTools(context);
+	}
+
+	callTool(name: string, args: unknown, context?: CallContext) {
+		return this.server.callTool(name, args, context);
+	}
+
+	isErrorStatus(status: number) {
+		return this.server.isErrorStatus(status);
+	}
+
+	onToolsChanged(listener: () => void) {
+		return this.server.onToolsChanged(listener);
+	}
+
+	listResources(context?: CallContext) {
+		return this.server.listResources(context);
+	}
+
+	listResourceTemplates(context?: CallContext) {
+		return this.server.listResourceTemplates(context);
+	}
+
+	readResource(uri: string, context?: CallContext) {
+		return this.server.readResource(uri, context);
+	}
+
+	onResourcesUpdated(listener: (uris: string[]) => void) {
+		return this.server.onResourcesUpdated(listener);
+	}
+
+	listPrompts(context?: CallContext) {
+		return this.server.listPrompts(context);
+	}
+
+	getPrompt(
+		name: string,
+		args?: Record<string, string>,
+		context?: CallContext,
+	) {
+		return this.server.getPrompt(name, args, context);
 	}
 }
@@ -1,142 +1,71 @@
 /**
  * Native MCP Server Implementation
  *
- * This replaces the bridge scripts by directly implementing the MCP protocol
- * using the official @modelcontextprotocol/sdk package.
+ * Answers MCP requests through the shared protocol core, with tools coming
+ * from an in-process `ExpressMCP` or from a running gateway over HTTP.
  */
 
-import type { Application } from "express";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import type { ExpressMCP } from "./index";
+import {
+	type ProtocolOptions,
+	callToolResult,
+	getPromptResult,
+	listPromptsResult,
+	listResourceTemplatesResult,
+	listResourcesResult,
+	listToolsResult,
+	readResourceResult,
+} from "./mcpProtocol";
+import { RemoteToolSource, type ToolSource } from "./toolSource";
 
 interface MCPServerOptions {
 	port?: number;
+	/** Base URL of a remote app whose gateway is mounted on `/mcp` */
 	url?: string;
+	/** Headers sent to the remote gateway, e.g. `Authorization` */
+	headers?: Record<string, string>;
 	debug?: boolean;
 	expressMcp?: ExpressMCP;
-}
-
-interface MCPTool {
-	name: string;
-	title: string;
-	description: string;
-	inputSchema?: unknown;
-	outputSchema?: unknown;
-}
-
-interface MCPResponse {
-	ok: boolean;
-	result?: unknown;
-	error?: string;
-	status?: number;
-}
-
-class McpError extends Error {
-	constructor(message: string) {
-		super(message);
-		this.name = "McpError";
-	}
+	/** Any tool source; takes precedence over `expressMcp` and `url` */
+	source?: ToolSource;
 }
 
 export class MCPServer {
-	private baseUrl: string;
 	private debug: boolean;
-	private tools: MCPTool[] = [];
-	private expressMcp?: ExpressMCP;
+	private source: ToolSource;
+	private protocol: ProtocolOptions;
 
 	constructor(options: MCPServerOptions = {}) {
-		this.baseUrl = options.url || "http://localhost:3000";
 		this.debug = options.debug || false;
-		this.expressMcp = options.expressMcp;
+		// Local mode builds results the way the app's own endpoint does
+		const inherited = options.expressMcp?.protocolOptions ?? {};
+		this.protocol = {
+			...inherited,
+			validateOutput: this.debug || inherited.validateOutput,
+			log: inherited.log ?? { info: console.error, error: console.error },
+		};
+		this.source =
+			options.source ??
+			options.expressMcp ??
+			new RemoteToolSource(
+				new URL("/mcp", options.url || "http://localhost:3000"),
+				{ headers: options.headers },
+			);
 	}
 
 	async start(): Promise<void> {
-		this.tools = await this.loadTools();
-		this.log("MCP Server started with", this.tools.length, "tools");
-	}
-
-	private log(...args: unknown[]) {
-		if (this.debug) {
-			console.error("[MCP Server]", ...args);
-		}
-	}
-
-	private async loadTools(): Promise<MCPTool[]> {
-		if (this.expressMcp) {
-			// Load tools from local Express app
-			return this.expressMcp.listTools() as MCPTool[];
-		}
-		// Load tools from remote Express app
 		try {
-			const response = await fetch(`${this.baseUrl}/mcp/tools`);
-			const data = await response.json();
-			return data.tools || [];
+			const tools = await this.source.listTools();
+			this.log("MCP Server started with", tools.length, "tools");
 		} catch (error) {
 			this.log("Failed to load tools:", error);
-			return [];
 		}
 	}
 
-	private async invokeTool(toolName: string, args: unknown): Promise<unknown> {
-		if (this.expressMcp) {
-			// Invoke tool directly through Express app
-			const dispatcher = (
-				this.expressMcp as unknown as {
-					dispatcher: {
-						dispatch: (
-							method: string,
-							path: string,
-							args: unknown,
-							headers: Record<string, string>,
-						) => Promise<MCPResponse>;
-					};
-				}
-			).dispatcher;
-			const tool = this.tools.find(
-				(t) => t.name === toolName || t.title === toolName,
-			);
-
-			if (!tool) {
-				throw new McpError(`Tool '${toolName}' not found`);
-			}
-
-			// This is a simplified implementation - in practice, you'd need to map tool names to routes
-			const result = await dispatcher.dispatch("POST", "/mcp/invoke", args, {
-				"content-type": "application/json",
-			});
-
-			return result;
-		}
-		// Invoke tool through remote Express app
-		return this.makeRequest("POST", "/mcp/invoke", {
-			toolName,
-			args,
-		});
-	}
-
-	private async makeRequest(
-		method: string,
-		path: string,
-		data?: unknown,
-	): Promise<unknown> {
-		const url = new URL(path, this.baseUrl);
-
-		try {
-			const response = await fetch(url.toString(), {
-				method,
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: data ? JSON.stringify(data) : undefined,
-			});
-
-			if (!response.ok) {
-				throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-			}
-
-			return await response.json();
-		} catch (error) {
-			this.log("Request failed:", error);
-			throw error;
+	private log(...args: unknown[]) {
+		if (this.debug) {
+			console.error("[MCP Server]", ...args);
 		}
 	}
 
@@ -147,34 +76,47 @@ export class MCPServer {
 		try {
 			switch (request.method) {
 				case "tools/list":
-					return {
-						tools: this.tools.map((tool) => ({
-							name: tool.name,
-							description: tool.description,
-							inputSchema: tool.inputSchema,
-						})),
-					};
+					return await listToolsResult(this.source);
 
 				case "tools/call": {
 					const { name, arguments: args } = request.params as {
 						name: string;
-						arguments: unknown;
+						arguments?: unknown;
 					};
-					const result = await this.invokeTool(name, args);
-					return { content: [{ type: "text", text: JSON.stringify(result) }] };
+					return await callToolResult(this.source, name, args, this.protocol);
+				}
+
+				case "resources/list":
+					return await listResourcesResult(this.source);
+
+				case "resources/templates/list":
+					return await listResourceTemplatesResult(this.source);
+
+				case "resources/read": {
+					const { uri } = request.params as { uri: string };
+					return await readResourceResult(this.source, uri, this.protocol);
+				}
+
+				case "prompts/list":
+					return await listPromptsResult(this.source);
+
+				case "prompts/get": {
+					const { name, arguments: args } = request.params as {
+						name: string;
+						arguments?: Record<string, string>;
+					};
+					return await getPromptResult(this.source, name, args);
 				}
 
 				default:
-					throw new McpError(`Unknown method: ${request.method}`);
+					throw new McpError(
+						ErrorCode.MethodNotFound,
+						`Unknown method: ${request.method}`,
+					);
 			}
 		} catch (error) {
 			this.log("Request handling error:", error);
-			if (error instanceof McpError) {
-				throw error;
-			}
-			throw new McpError(
-				error instanceof Error ? error.message : "Unknown error",
-			);
+			throw error;
 		}
 	}
 }
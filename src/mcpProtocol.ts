@@ -0,0 +1,747 @@
+import { randomUUID } from "node:crypto";
+import {
+	type IncomingMessage,
+	STATUS_CODES,
+	type ServerResponse,
+} from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+	CallToolRequestSchema,
+	ErrorCode,
+	GetPromptRequestSchema,
+	ListPromptsRequestSchema,
+	ListResourceTemplatesRequestSchema,
+	ListResourcesRequestSchema,
+	ListToolsRequestSchema,
+	McpError,
+	ReadResourceRequestSchema,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+	isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { authPrincipal } from "./auth";
+import {
+	DEFAULT_MAX_BINARY_SIZE,
+	DEFAULT_RESOURCE_BASE_URI,
+	binaryContentBlock,
+	mimeTypeOf,
+	resourceUri,
+} from "./binaryContent";
+import { withoutCredentials } from "./headers";
+import {
+	advertisedOutputSchema,
+	structuredBody,
+	validateOutput,
+} from "./outputSchema";
+import { ParamValidationError } from "./pathParams";
+import {
+	AccessDeniedError,
+	type CallContext,
+	PromptNotFoundError,
+	ResourceNotFoundError,
+	ToolNotFoundError,
+	type ToolSource,
+	defaultIsErrorStatus,
+} from "./toolSource";
+
+export const SERVER_INFO = { name: "expressjs-mcp", version: "0.1.1" };
+
+/** JSON-RPC error code MCP uses for unknown resource URIs */
+export const RESOURCE_NOT_FOUND = -32002;
+
+type Logger = {
+	info: (...a: unknown[]) => void;
+	error: (...a: unknown[]) => void;
+	warn?: (...a: unknown[]) => void;
+};
+
+export type ProtocolOptions = {
+	/**
+	 * Check JSON results against the tool's `outputSchema` and log mismatches.
+	 * Meant for debugging; it costs a tool lookup per call.
+	 */
+	validateOutput?: boolean;
+	log?: Logger;
+	/**
+	 * Statuses reported as failed (`isError`) tool calls. Defaults to the
+	 * source's own policy, then to non-2xx.
+	 */
+	isErrorStatus?: (status: number) => boolean;
+	/** Largest binary body inlined in a result (bytes, default 1 MiB) */
+	maxBinarySize?: number;
+	/** Base of resource URIs, e.g. for links to large binary results */
+	resourceBaseUri?: string;
+	/**
+	 * Close Streamable HTTP sessions without requests or open streams for
+	 * this long (ms, default 30 minutes; 0 keeps them until `DELETE`)
+	 */
+	sessionTimeout?: number;
+};
+
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+
+/** Largest JSON-RPC body read for a request that opens a session */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/** The JSON body of a request no body parser has read. */
+async function readJson(req: IncomingMessage) {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += chunk.length;
+		if (size > MAX_BODY_SIZE) throw new Error("Request body too large");
+		chunks.push(Buffer.from(chunk));
+	}
+	return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+const errorMessage = (e: unknown) =>
+	e instanceof Error ? e.message : "Unknown error";
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+	!!v && typeof v === "object" && !Array.isArray(v);
+
+const bodyText = (body: unknown) =>
+	typeof body === "string" ? body : JSON.stringify(body, null, 2);
+
+/** The most telling line of an error body, if there is one. */
+function errorDetail(body: unknown): string | undefined {
+	if (typeof body === "string") {
+		return body.trim().split("\n")[0].slice(0, 200) || undefined;
+	}
+	if (!isObject(body)) return undefined;
+	for (const key of ["message", "error", "detail", "title"]) {
+		const value = body[key];
+		if (typeof value === "string") return value;
+		if (isObject(value) && typeof value.message === "string") {
+			return value.message;
+		}
+	}
+	return undefined;
+}
+
+/** `Tool 'GET_/x' failed with HTTP 403 Forbidden: Missing scope` */
+function failureMessage(subject: string, status: number, body: unknown) {
+	const reason = STATUS_CODES[status] ? ` ${STATUS_CODES[status]}` : "";
+	const detail = errorDetail(body);
+	return `${subject} failed with HTTP ${status}${reason}${detail ? `: ${detail}` : ""}`;
+}
+
+/** Rejected before dispatch: the caller lacks a required scope or role. */
+const accessDenied = (e: AccessDeniedError) =>
+	new McpError(ErrorCode.InvalidRequest, e.message, { missing: e.missing });
+
+const errorStatusPolicy = (source: ToolSource, options: ProtocolOptions) =>
+	options.isErrorStatus ??
+	source.isErrorStatus?.bind(source) ??
+	defaultIsErrorStatus;
+
+/** `tools/list` result for a tool source, limited to what the caller may use. */
+export async function listToolsResult(
+	source: ToolSource,
+	context: CallContext = {},
+) {
+	const tools = await source.listTools(context);
+	return {
+		tools: tools.map((tool) => {
+			const outputSchema = advertisedOutputSchema(tool.outputSchema);
+			return {
+				name: tool.name,
+				title: tool.title,
+				description: tool.description ?? `Invoke ${tool.title ?? tool.name}`,
+				inputSchema: (tool.inputSchema ?? {
+					type: "object",
+					additionalProperties: true,
+				}) as { type: "object" },
+				...(outputSchema && { outputSchema }),
+			};
+		}),
+	};
+}
+
+/**
+ * The `outputSchema` a tool is advertised with to the caller, if any. The
+ * call already succeeded, so a failed lookup is logged, not thrown.
+ */
+async function outputSchemaOf(
+	source: ToolSource,
+	name: string,
+	context: CallContext,
+	log: Logger,
+) {
+	try {
+		const tools = await source.listTools(context);
+		const tool = tools.find((t) => t.name === name || t.title === name);
+		return advertisedOutputSchema(tool?.outputSchema);
+	} catch (e: unknown) {
+		log.error(`Could not look up the outputSchema of '${name}'`, e);
+		return undefined;
+	}
+}
+
+/** How a result that is not a JSON object is described in errors. */
+const bodyKind = (body: unknown) => {
+	if (Buffer.isBuffer(body)) return "a binary body";
+	if (body === undefined || body === "") return "an empty body";
+	if (Array.isArray(body)) return "an array";
+	return typeof body === "string" ? "text" : `a ${typeof body}`;
+};
+
+async function checkOutput(
+	source: ToolSource,
+	name: string,
+	value: unknown,
+	context: CallContext,
+	log: Logger,
+) {
+	const schema = await outputSchemaOf(source, name, context, log);
+	if (!schema) return;
+	try {
+		const errors = validateOutput(schema, value);
+		if (errors.length) {
+			(log.warn ?? log.error)(
+				`Result of '${name}' does not match its outputSchema:`,
+				errors,
+			);
+		}
+	} catch (e: unknown) {
+		log.error(`Could not compile outputSchema of '${name}'`, e);
+	}
+}
+
+/**
+ * `tools/call` result for a tool source.
+ *
+ * Responses with an error status (per `isErrorStatus`) become `isError`
+ * results with a one-line summary, the error body and the status in
+ * `_meta`, so the model can react to them. Unknown tools, bad params and
+ * failures to reach the route at all are JSON-RPC errors. JSON object
+ * responses are also returned as `structuredContent`, binary ones as
+ * image, audio or resource blocks. Tools with an `outputSchema` that answer
+ * anything but an object get an `isError` result.
+ */
+export async function callToolResult(
+	source: ToolSource,
+	name: string,
+	args: unknown = {},
+	options: ProtocolOptions = {},
+	context: CallContext = {},
+) {
+	let result: Awaited<ReturnType<ToolSource["callTool"]>>;
+	try {
+		result = await source.callTool(name, args, context);
+	} catch (e: unknown) {
+		if (e instanceof ToolNotFoundError) {
+			throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+		}
+		if (e instanceof AccessDeniedError) throw accessDenied(e);
+		if (e instanceof ParamValidationError) {
+			throw new McpError(ErrorCode.InvalidParams, e.message, {
+				issues: e.issues,
+			});
+		}
+		throw new McpError(
+			ErrorCode.InternalError,
+			`Tool '${name}' could not be called: ${errorMessage(e)}`,
+		);
+	}
+
+	const { status, body } = result;
+	if (errorStatusPolicy(source, options)(status)) {
+		const hasBody = body !== undefined && body !== "" && !Buffer.isBuffer(body);
+		const summary = failureMessage(`Tool '${name}'`, status, body);
+		return {
+			content: [
+				{ type: "text" as const, text: summary },
+				...(hasBody ? [{ type: "text" as const, text: bodyText(body) }] : []),
+			],
+			_meta: { "expressjs-mcp/status": status },
+			isError: true,
+		};
+	}
+
+	// Clients reject a success without the `structuredContent` the tool's
+	// outputSchema promises, so anything but an object is an error there
+	const structuredContent = Buffer.isBuffer(body)
+		? undefined
+		: structuredBody(body);
+	const log = options.log ?? console;
+	if (
+		!structuredContent &&
+		(await outputSchemaOf(source, name, context, log))
+	) {
+		const hasBody = body !== undefined && body !== "" && !Buffer.isBuffer(body);
+		return {
+			content: [
+				{
+					type: "text" as const,
+					text: `Tool '${name}' returned ${bodyKind(body)} (HTTP ${status}), not the object its outputSchema declares`,
+				},
+				...(hasBody ? [{ type: "text" as const, text: bodyText(body) }] : []),
+			],
+			_meta: { "expressjs-mcp/status": status },
+			isError: true,
+		};
+	}
+
+	if (Buffer.isBuffer(body)) {
+		const base = options.resourceBaseUri ?? DEFAULT_RESOURCE_BASE_URI;
+		const maxSize = options.maxBinarySize ?? DEFAULT_MAX_BINARY_SIZE;
+		// Only link to bodies a client can read back with `resources/read`
+		const link = source.readResource && result.resourceUri;
+		if (body.length > maxSize && !link) {
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `Tool '${name}' returned ${body.length} bytes, over the ${maxSize}-byte maxBinarySize limit, and its route is not a resource to link to`,
+					},
+				],
+				_meta: { "expressjs-mcp/status": status },
+				isError: true,
+			};
+		}
+		return {
+			content: [
+				binaryContentBlock(body, {
+					contentType: result.contentType,
+					uri: link || resourceUri(base, result.url ?? `/${name}`),
+					name,
+					maxSize,
+				}),
+			],
+			isError: false,
+		};
+	}
+
+	if (options.validateOutput) {
+		await checkOutput(source, name, body, context, log);
+	}
+	return {
+		content: [{ type: "text" as const, text: bodyText(body) }],
+		...(structuredContent && { structuredContent }),
+		isError: false,
+	};
+}
+
+/** `resources/list` result for a source; empty if it has no resources. */
+export async function listResourcesResult(
+	source: ToolSource,
+	context: CallContext = {},
+) {
+	return { resources: (await source.listResources?.(context)) ?? [] };
+}
+
+/** `resources/templates/list` result for a source. */
+export async function listResourceTemplatesResult(
+	source: ToolSource,
+	context: CallContext = {},
+) {
+	return {
+		resourceTemplates: (await source.listResourceTemplates?.(context)) ?? [],
+	};
+}
+
+/**
+ * `resources/read` result for a source. Unknown URIs and 404s are
+ * "resource not found" errors, other error statuses internal errors.
+ */
+export async function readResourceResult(
+	source: ToolSource,
+	uri: string,
+	options: ProtocolOptions = {},
+	context: CallContext = {},
+) {
+	const notFound = () =>
+		new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+	if (!source.readResource) throw notFound();
+
+	let result: Awaited<ReturnType<ToolSource["callTool"]>>;
+	try {
+		result = await source.readResource(uri, context);
+	} catch (e: unknown) {
+		if (e instanceof ResourceNotFoundError) throw notFound();
+		if (e instanceof AccessDeniedError) throw accessDenied(e);
+		if (e instanceof ParamValidationError) {
+			throw new McpError(ErrorCode.InvalidParams, e.message, {
+				issues: e.issues,
+			});
+		}
+		throw new McpError(
+			ErrorCode.InternalError,
+			`Resource '${uri}' could not be read: ${errorMessage(e)}`,
+		);
+	}
+
+	const { status, body } = result;
+	if (status === 404) throw notFound();
+	if (errorStatusPolicy(source, options)(status)) {
+		throw new McpError(
+			ErrorCode.InternalError,
+			failureMessage(`Resource '${uri}'`, status, body),
+			{ status },
+		);
+	}
+
+	const mimeType = mimeTypeOf(result.contentType);
+	if (Buffer.isBuffer(body)) {
+		return {
+			contents: [
+				{
+					uri,
+					mimeType: mimeType || "application/octet-stream",
+					blob: body.toString("base64"),
+				},
+			],
+		};
+	}
+	return {
+		contents: [
+			{
+				uri,
+				mimeType:
+					mimeType ||
+					(typeof body === "string" ? "text/plain" : "application/json"),
+				text: bodyText(body),
+			},
+		],
+	};
+}
+
+/** `prompts/list` result for a source; empty if it has no prompts. */
+export async function listPromptsResult(
+	source: ToolSource,
+	context: CallContext = {},
+) {
+	return { prompts: (await source.listPrompts?.(context)) ?? [] };
+}
+
+/** `prompts/get` result; unknown prompts and missing arguments are `InvalidParams`. */
+export async function getPromptResult(
+	source: ToolSource,
+	name: string,
+	args?: Record<string, string>,
+	context: CallContext = {},
+) {
+	try {
+		if (!source.getPrompt) throw new PromptNotFoundError(name);
+		return await source.getPrompt(name, args, context);
+	} catch (e: unknown) {
+		if (e instanceof PromptNotFoundError) {
+			throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+		}
+		if (e instanceof ParamValidationError) {
+			throw new McpError(ErrorCode.InvalidParams, e.message, {
+				issues: e.issues,
+			});
+		}
+		throw e;
+	}
+}
+
+/**
+ * The MCP protocol core: a server answering `tools/list` and `tools/call`
+ * (plus the `resources/*` and `prompts/*` requests when the source has
+ * them) from `source`. Every transport (Streamable HTTP, SSE, stdio, the CLI)
+ * goes through it. Each connected transport needs its own instance.
+ *
+ * Calls carry the headers and authenticated principal of the HTTP request
+ * they came in, over those of the request that opened the `session`.
+ * Credential headers are never taken from an HTTP session: each request
+ * sends its own. Transports without requests (stdio) use the session's.
+ */
+export function createProtocolServer(
+	source: ToolSource,
+	options: ProtocolOptions = {},
+	session: CallContext = {},
+) {
+	const contextOf = (extra: {
+		requestInfo?: CallContext;
+		authInfo?: AuthInfo;
+	}): CallContext => ({
+		headers: extra.requestInfo
+			? {
+					...withoutCredentials(session.headers),
+					...extra.requestInfo.headers,
+				}
+			: session.headers,
+		user: authPrincipal(extra.authInfo) ?? session.user,
+	});
+	const listChanged = !!source.onToolsChanged;
+	const hasResources = !!source.readResource;
+	const subscribe = hasResources && !!source.onResourcesUpdated;
+	const hasPrompts = !!source.getPrompt;
+	const server = new Server(SERVER_INFO, {
+		capabilities: {
+			tools: { listChanged },
+			...(hasResources && { resources: { listChanged, subscribe } }),
+			...(hasPrompts && { prompts: { listChanged } }),
+		},
+	});
+
+	server.setRequestHandler(ListToolsRequestSchema, (_request, extra) =>
+		listToolsResult(source, contextOf(extra)),
+	);
+	server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+		callToolResult(
+			source,
+			request.params.name,
+			request.params.arguments,
+			options,
+			contextOf(extra),
+		),
+	);
+
+	if (hasResources) {
+		server.setRequestHandler(ListResourcesRequestSchema, (_request, extra) =>
+			listResourcesResult(source, contextOf(extra)),
+		);
+		server.setRequestHandler(
+			ListResourceTemplatesRequestSchema,
+			(_request, extra) =>
+				listResourceTemplatesResult(source, contextOf(extra)),
+		);
+		server.setRequestHandler(ReadResourceRequestSchema, (request, extra) =>
+			readResourceResult(source, request.params.uri, options, contextOf(extra)),
+		);
+	}
+
+	if (hasPrompts) {
+		server.setRequestHandler(ListPromptsRequestSchema, (_request, extra) =>
+			listPromptsResult(source, contextOf(extra)),
+		);
+		server.setRequestHandler(GetPromptRequestSchema, (request, extra) =>
+			getPromptResult(
+				source,
+				request.params.name,
+				request.params.arguments,
+				contextOf(extra),
+			),
+		);
+	}
+
+	// Resources and prompts are rebuilt along with the tools
+	const unsubscribeTools = source.onToolsChanged?.(() => {
+		server.sendToolListChanged().catch(() => undefined);
+		if (hasResources) server.sendResourceListChanged().catch(() => undefined);
+		if (hasPrompts) server.sendPromptListChanged().catch(() => undefined);
+	});
+	const unsubscribeResources = subscribe
+		? subscribeResources(server, source)
+		: undefined;
+	server.onclose = () => {
+		unsubscribeTools?.();
+		unsubscribeResources?.();
+	};
+	return server;
+}
+
+/** Subscribed URIs match updates regardless of query string and trailing slash. */
+const subscriptionKey = (uri: string) =>
+	uri.split(/[?#]/)[0].replace(/(?<=[^/])\/+$/, "");
+
+/**
+ * `resources/subscribe` and `resources/unsubscribe` for one client, sending
+ * `notifications/resources/updated` for its subscribed URIs.
+ */
+function subscribeResources(server: Server, source: ToolSource) {
+	const subscriptions = new Map<string, Set<string>>();
+	server.setRequestHandler(SubscribeRequestSchema, ({ params }) => {
+		const key = subscriptionKey(params.uri);
+		const uris = subscriptions.get(key) ?? new Set();
+		subscriptions.set(key, uris.add(params.uri));
+		return {};
+	});
+	server.setRequestHandler(UnsubscribeRequestSchema, ({ params }) => {
+		const key = subscriptionKey(params.uri);
+		subscriptions.get(key)?.delete(params.uri);
+		if (!subscriptions.get(key)?.size) subscriptions.delete(key);
+		return {};
+	});
+	return source.onResourcesUpdated?.((updated) => {
+		for (const key of new Set(updated.map(subscriptionKey))) {
+			for (const uri of subscriptions.get(key) ?? []) {
+				server.sendResourceUpdated({ uri }).catch(() => undefined);
+			}
+		}
+	});
+}
+
+/**
+ * Streamable HTTP endpoint: `POST` carries JSON-RPC messages (answered as
+ * JSON or an SSE stream), `GET` opens the server-to-client SSE stream and
+ * `DELETE` ends the session. Sessions are keyed by `Mcp-Session-Id`.
+ */
+export class StreamableHttpSessions {
+	private transports = new Map<string, StreamableHTTPServerTransport>();
+	private idle = new Map<
+		StreamableHTTPServerTransport,
+		{ open: number; timer?: NodeJS.Timeout }
+	>();
+
+	constructor(
+		private createServer: (session: CallContext) => Server,
+		private log: Logger = console,
+		private timeout = DEFAULT_SESSION_TIMEOUT,
+	) {}
+
+	async handle(req: IncomingMessage & { body?: unknown }, res: ServerResponse) {
+		try {
+			const sessionId = req.headers["mcp-session-id"];
+			const transport =
+				typeof sessionId === "string"
+					? this.transports.get(sessionId)
+					: undefined;
+			if (sessionId && !transport) {
+				return this.reject(res, 404, -32001, "Session not found");
+			}
+			if (transport) {
+				this.track(transport, res);
+				// `req.body` is set when a JSON parser ran first; otherwise the
+				// transport reads the request itself
+				return await transport.handleRequest(req, res, req.body);
+			}
+			if (req.method !== "POST") {
+				return this.reject(res, 400, -32000, "Missing session ID");
+			}
+			await this.start(req, res);
+		} catch (e: unknown) {
+			this.log.error("MCP transport error", e);
+			if (!res.headersSent) {
+				this.reject(res, 500, ErrorCode.InternalError, errorMessage(e));
+			}
+		}
+	}
+
+	/** Close every open session. */
+	async close() {
+		const transports = [...this.transports.values()];
+		this.transports.clear();
+		await Promise.all(transports.map((t) => t.close()));
+	}
+
+	/**
+	 * Open a session for an `initialize` request. Anything else is rejected
+	 * before a server is built, and a transport whose `initialize` failed is
+	 * closed again.
+	 */
+	private async start(
+		req: IncomingMessage & { body?: unknown },
+		res: ServerResponse,
+	) {
+		let body: unknown;
+		try {
+			body = req.body ?? (await readJson(req));
+		} catch (e: unknown) {
+			return this.reject(res, 400, -32700, `Parse error: ${errorMessage(e)}`);
+		}
+		if (!isInitializeRequest(body)) {
+			return this.reject(res, 400, -32000, "Server not initialized");
+		}
+		const transport: StreamableHTTPServerTransport =
+			new StreamableHTTPServerTransport({
+				sessionIdGenerator: () => randomUUID(),
+				onsessioninitialized: (id) => {
+					this.transports.set(id, transport);
+				},
+			});
+		transport.onclose = () => {
+			if (transport.sessionId) this.transports.delete(transport.sessionId);
+			clearTimeout(this.idle.get(transport)?.timer);
+			this.idle.delete(transport);
+		};
+		await this.createServer({ headers: req.headers }).connect(transport);
+		this.track(transport, res);
+		try {
+			await transport.handleRequest(req, res, body);
+		} finally {
+			if (!transport.sessionId) await transport.close();
+		}
+	}
+
+	/** Keep a session open while `res` is, and close it once idle too long. */
+	private track(transport: StreamableHTTPServerTransport, res: ServerResponse) {
+		const state = this.idle.get(transport) ?? { open: 0 };
+		this.idle.set(transport, state);
+		clearTimeout(state.timer);
+		state.open++;
+		res.once("close", () => {
+			state.open--;
+			if (state.open > 0 || !this.timeout || !this.idle.has(transport)) {
+				return;
+			}
+			state.timer = setTimeout(() => {
+				transport.close().catch(() => undefined);
+			}, this.timeout);
+			state.timer.unref();
+		});
+	}
+
+	private reject(
+		res: ServerResponse,
+		status: number,
+		code: number,
+		message: string,
+	) {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(
+			JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+		);
+	}
+}
+
+/**
+ * Legacy HTTP+SSE transport (protocol 2024-11-05): `GET` opens an event
+ * stream that announces a per-session `POST` endpoint for client messages.
+ */
+export class SseSessions {
+	private transports = new Map<string, SSEServerTransport>();
+
+	constructor(
+		private createServer: (session: CallContext) => Server,
+		private log: Logger = console,
+	) {}
+
+	/** Open a stream on `res`; clients post to `endpoint?sessionId=…`. */
+	async connect(endpoint: string, req: IncomingMessage, res: ServerResponse) {
+		const transport = new SSEServerTransport(endpoint, res);
+		this.transports.set(transport.sessionId, transport);
+		transport.onclose = () => {
+			this.transports.delete(transport.sessionId);
+		};
+		try {
+			await this.createServer({ headers: req.headers }).connect(transport);
+		} catch (e: unknown) {
+			this.transports.delete(transport.sessionId);
+			this.log.error("MCP SSE connect error", e);
+			if (!res.headersSent) res.writeHead(500).end();
+		}
+	}
+
+	async handleMessage(
+		req: IncomingMessage & { body?: unknown },
+		res: ServerResponse,
+	) {
+		const sessionId = new URL(
+			req.url ?? "",
+			"http://localhost",
+		).searchParams.get("sessionId");
+		const transport = sessionId ? this.transports.get(sessionId) : undefined;
+		if (!transport) {
+			res.writeHead(404, { "Content-Type": "text/plain" });
+			res.end("Session not found");
+			return;
+		}
+		await transport.handlePostMessage(req, res, req.body);
+	}
+
+	/** Close every open stream. */
+	async close() {
+		const transports = [...this.transports.values()];
+		this.transports.clear();
+		await Promise.all(transports.map((t) => t.close()));
+	}
+}
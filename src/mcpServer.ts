@@ -1,61 +1,376 @@
-import type { Application } from "express";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { Application, RequestHandler } from "express";
+import {
+	type AccessRequirement,
+	type Principal,
+	missingAccess,
+	principalOf,
+} from "./auth";
+import { isTextContentType } from "./binaryContent";
+import {
+	DEFAULT_FORWARD_HEADERS,
+	type HeaderBag,
+	pickHeaders,
+} from "./headers";
 import type { InMemoryDispatcher } from "./inMemoryDispatcher";
 import type { RouteInfo } from "./index";
-import type { SchemaResolver } from "./schemaResolver";
+import {
+	type ProtocolOptions,
+	SseSessions,
+	StreamableHttpSessions,
+	createProtocolServer,
+} from "./mcpProtocol";
+import { type OAuthOptions, resourceMetadataRoutes } from "./oauth";
+import { ParamValidationError } from "./pathParams";
+import { PromptRegistry, type PromptTemplate } from "./promptRegistry";
+import { ResourceRegistry } from "./resourceRegistry";
+import type { SchemaResolver, ToolDefinition } from "./schemaResolver";
+import {
+	AccessDeniedError,
+	type CallContext,
+	ResourceNotFoundError,
+	type ToolCallResult,
+	ToolNotFoundError,
+	type ToolSource,
+	defaultIsErrorStatus,
+} from "./toolSource";
 
 type Logger = {
 	info: (...a: unknown[]) => void;
 	error: (...a: unknown[]) => void;
+	warn?: (...a: unknown[]) => void;
 };
 
-export class McpServer {
+export type MountOptions = {
+	/** Also serve the `GET /tools` + `POST /invoke` JSON endpoints (default true) */
+	legacy?: boolean;
+	/** Also serve the HTTP+SSE transport on `GET /sse` + `POST /messages` */
+	sse?: boolean;
+	/** Guard run before every gateway endpoint, see `authGuard` */
+	auth?: RequestHandler;
+	/** Serve this protected resource's metadata on its well-known paths */
+	oauth?: OAuthOptions;
+};
+
+export class McpServer implements ToolSource {
 	private routes: RouteInfo[] = [];
-	private tools: unknown[] = [];
+	private tools: ToolDefinition[] = [];
+	private resources: ResourceRegistry;
+	private prompts: PromptRegistry;
+	private toolListeners = new Set<() => void>();
+	private updateListeners = new Set<(uris: string[]) => void>();
+	private handlers = new WeakSet<object>();
+	private sessions: StreamableHttpSessions;
+	private sseSessions: SseSessions;
+	private connections = new Set<Server>();
 	constructor(
 		private dispatcher: InMemoryDispatcher,
 		private schemas: SchemaResolver,
 		private log: Logger = console,
-	) {}
+		private protocol: ProtocolOptions = {},
+		/** Caller headers passed on to routes */
+		private forwardHeaders: string[] = DEFAULT_FORWARD_HEADERS,
+		/** Gateway auth is on: callers without a principal have no access */
+		private guarded = false,
+	) {
+		this.resources = new ResourceRegistry(
+			schemas,
+			protocol.resourceBaseUri,
+			log,
+		);
+		this.prompts = new PromptRegistry(log);
+		const createServer = (session: CallContext) =>
+			createProtocolServer(this, protocol, session);
+		this.sessions = new StreamableHttpSessions(
+			createServer,
+			log,
+			protocol.sessionTimeout,
+		);
+		this.sseSessions = new SseSessions(createServer, log);
+	}
 
-	async loadRoutes(routes: RouteInfo[]) {
+	/**
+	 * Build tools from `routes`, and resources and prompts from the routes
+	 * selected for them.
+	 */
+	async loadRoutes(
+		routes: RouteInfo[],
+		selected: {
+			resources?: RouteInfo[];
+			prompts?: RouteInfo[];
+			promptTemplates?: PromptTemplate[];
+		} = {},
+	) {
 		this.routes = routes;
 		this.tools = routes.map((r) => this.schemas.toTool(r));
+		this.resources.load(selected.resources ?? []);
+		this.prompts.load(
+			this.tools,
+			(selected.prompts ?? []).map((r) => this.schemas.toTool(r)),
+			selected.promptTemplates,
+		);
+		for (const listener of this.toolListeners) listener();
+	}
+
+	/**
+	 * Tools the caller may use. Requirements are checked against
+	 * `context.user`. Without a principal, every tool is listed when gateway
+	 * auth is off (stdio, in-process calls) and only unrestricted ones when
+	 * it is on.
+	 */
+	listTools(context: CallContext = {}) {
+		return this.tools.filter((t) => this.allows(context, t.access));
+	}
+
+	/** Called whenever the tool list is rebuilt; returns an unsubscribe function. */
+	onToolsChanged(listener: () => void) {
+		this.toolListeners.add(listener);
+		return () => {
+			this.toolListeners.delete(listener);
+		};
+	}
+
+	/** Route behind a tool, by its name or its `METHOD /path` title. */
+	findRoute(toolName: string) {
+		return this.routes.find(
+			(r) =>
+				this.schemas.toolName(r) === toolName ||
+				this.schemas.safeName(r) === toolName,
+		);
+	}
+
+	async callTool(
+		name: string,
+		args: unknown,
+		context: CallContext = {},
+		timeout?: number,
+	) {
+		const route = this.findRoute(name);
+		if (!route) throw new ToolNotFoundError(name);
+		this.authorize(route, context, `Tool '${name}'`);
+		const result = await this.invoke(route, args, context, timeout);
+		const uri = result.url && this.resources.uriOf(route, result.url);
+		return uri ? { ...result, resourceUri: uri } : result;
+	}
+
+	/** Resources of routes the caller may use, as with {@link listTools}. */
+	listResources(context: CallContext = {}) {
+		return this.resources.listResources((r) =>
+			this.allows(context, this.accessOf(r)),
+		);
+	}
+
+	listResourceTemplates(context: CallContext = {}) {
+		return this.resources.listResourceTemplates((r) =>
+			this.allows(context, this.accessOf(r)),
+		);
 	}
 
-	listTools() {
-		return this.tools;
+	/** Prompts whose tools the caller may all use. */
+	listPrompts(context: CallContext = {}) {
+		return this.prompts.listPrompts((t) => this.allows(context, t.access));
 	}
 
-	mount(app: Application, basePath: string) {
-		app.get(`${basePath}/tools`, (_req, res) =>
-			res.json({ tools: this.tools }),
+	getPrompt(
+		name: string,
+		args?: Record<string, string>,
+		context: CallContext = {},
+	) {
+		return this.prompts.getPrompt(name, args, (t) =>
+			this.allows(context, t.access),
 		);
+	}
+
+	/** Called with the URIs of changed resources; returns an unsubscribe function. */
+	onResourcesUpdated(listener: (uris: string[]) => void) {
+		this.updateListeners.add(listener);
+		return () => {
+			this.updateListeners.delete(listener);
+		};
+	}
+
+	resourcesUpdated(uris: string[]) {
+		if (!uris.length) return;
+		for (const listener of this.updateListeners) listener(uris);
+	}
+
+	/** GET the route behind a resource URI; its query string becomes args. */
+	async readResource(uri: string, context: CallContext = {}, timeout?: number) {
+		const match = this.resources.match(uri);
+		if (!match) throw new ResourceNotFoundError(uri);
+		const { route, params, query } = match;
+		this.authorize(route, context, `Resource '${uri}'`);
+		const args = this.schemas.argLayout(route).sections
+			? { params, query }
+			: { ...query, ...params };
+		return this.invoke(route, args, context, timeout);
+	}
+
+	/** Throw an {@link AccessDeniedError} if the caller may not use `route`. */
+	private authorize(route: RouteInfo, context: CallContext, subject: string) {
+		const user = this.callerOf(context);
+		const missing = user && missingAccess(user, this.accessOf(route));
+		if (missing) throw new AccessDeniedError(subject, missing);
+	}
+
+	/** Who requirements are checked against; nobody when auth is off. */
+	private callerOf(context: CallContext): Principal | undefined {
+		return context.user ?? (this.guarded ? {} : undefined);
+	}
+
+	private allows(context: CallContext, access: AccessRequirement | undefined) {
+		const user = this.callerOf(context);
+		return !user || !missingAccess(user, access);
+	}
+
+	private accessOf(route: RouteInfo) {
+		return this.tools[this.routes.indexOf(route)]?.access;
+	}
+
+	/** Whether a route status counts as a failed call. */
+	isErrorStatus(status: number) {
+		return (this.protocol.isErrorStatus ?? defaultIsErrorStatus)(status);
+	}
+
+	/** Whether `handler` is one of the gateway's own route handlers. */
+	ownsHandler(handler: unknown) {
+		return typeof handler === "function" && this.handlers.has(handler);
+	}
 
-		app.post(`${basePath}/invoke`, async (req, res) => {
+	/**
+	 * Call a route through the in-memory dispatcher. Streamed responses are
+	 * collected into a single body: a string, or a `Buffer` for binary types.
+	 * The route sees the allow-listed caller headers and `req.user`.
+	 */
+	async invoke(
+		route: RouteInfo,
+		args: unknown,
+		context: CallContext = {},
+		timeout?: number,
+	): Promise<ToolCallResult> {
+		const rsp = await this.dispatcher.dispatch(
+			route.method,
+			route.path,
+			args,
+			this.headersOf(context.headers),
+			{ ...this.schemas.argLayout(route), timeout, user: context.user },
+		);
+		const contentType = rsp.headers["content-type"];
+		const meta = { status: rsp.status, contentType, url: rsp.url };
+		if (!rsp.isStreaming || !rsp.stream) {
+			return { ...meta, body: rsp.body, streaming: false };
+		}
+		const stream = rsp.stream;
+		const data = await new Promise<Buffer>((resolve, reject) => {
+			const chunks: Buffer[] = [];
+			stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+			stream.on("end", () => resolve(Buffer.concat(chunks)));
+			stream.on("error", reject);
+		});
+		const body = isTextContentType(contentType) ? data.toString() : data;
+		return { ...meta, body, streaming: true };
+	}
+
+	/** The caller headers routes get to see. */
+	private headersOf(headers: HeaderBag | undefined) {
+		return pickHeaders(headers, this.forwardHeaders);
+	}
+
+	/**
+	 * Serve MCP over a single SDK transport, such as stdio. `session`
+	 * headers go with every call.
+	 */
+	async connect(transport: Transport, session: CallContext = {}) {
+		const server = createProtocolServer(this, this.protocol, session);
+		this.connections.add(server);
+		await server.connect(transport);
+		return server;
+	}
+
+	/** Close open MCP sessions. */
+	async close() {
+		const connections = [...this.connections];
+		this.connections.clear();
+		await Promise.all([
+			this.sessions.close(),
+			this.sseSessions.close(),
+			...connections.map((server) => server.close()),
+		]);
+	}
+
+	mount(app: Application, basePath: string, options: MountOptions = {}) {
+		// Streamable HTTP MCP transport on the mount path itself
+		const transport: RequestHandler = (req, res) => {
+			this.sessions.handle(req, res);
+		};
+		this.handlers.add(transport);
+		const guard = options.auth ? [options.auth] : [];
+		app.post(basePath, ...guard, transport);
+		app.get(basePath, ...guard, transport);
+		app.delete(basePath, ...guard, transport);
+
+		if (options.oauth) this.mountResourceMetadata(app, options.oauth);
+		if (options.sse) this.mountSse(app, basePath, guard);
+		if (options.legacy !== false) this.mountLegacy(app, basePath, guard);
+	}
+
+	private mountResourceMetadata(app: Application, oauth: OAuthOptions) {
+		const { paths, handler } = resourceMetadataRoutes(oauth);
+		this.handlers.add(handler);
+		for (const path of paths) app.get(path, handler);
+	}
+
+	private mountSse(
+		app: Application,
+		basePath: string,
+		guard: RequestHandler[],
+	) {
+		const stream: RequestHandler = (req, res) => {
+			// `baseUrl` covers apps mounted inside another app
+			this.sseSessions.connect(`${req.baseUrl}${basePath}/messages`, req, res);
+		};
+		const messages: RequestHandler = (req, res) => {
+			this.sseSessions.handleMessage(req, res);
+		};
+		this.handlers.add(stream);
+		this.handlers.add(messages);
+		app.get(`${basePath}/sse`, ...guard, stream);
+		app.post(`${basePath}/messages`, ...guard, messages);
+	}
+
+	private mountLegacy(
+		app: Application,
+		basePath: string,
+		guard: RequestHandler[],
+	) {
+		const tools: RequestHandler = (req, res) => {
+			res.json({ tools: this.listTools({ user: principalOf(req) }) });
+		};
+		const invoke: RequestHandler = async (req, res) => {
 			const { toolName, args, streaming, timeout } = req.body ?? {};
-			const route = this.routes.find(
-				(r) =>
-					this.schemas.toolName(r) === toolName ||
-					this.schemas.safeName(r) === toolName,
-			);
+			const route = this.findRoute(toolName);
 			if (!route) return res.status(404).json({ error: "Tool not found" });
+			const context = { headers: req.headers, user: principalOf(req) };
 
 			try {
+				this.authorize(route, context, `Tool '${toolName}'`);
 				if (streaming) {
-					// Handle streaming response
-					res.setHeader("Content-Type", "application/json");
-					res.setHeader("Transfer-Encoding", "chunked");
-					res.setHeader("Cache-Control", "no-cache");
-					res.setHeader("Connection", "keep-alive");
-
 					const stream = await this.dispatcher.dispatchStream(
 						route.method,
 						route.path,
 						args,
-						{},
+						this.headersOf(context.headers),
 						timeout,
+						{ ...this.schemas.argLayout(route), user: context.user },
 					);
 
+					// Handle streaming response
+					res.setHeader("Content-Type", "application/json");
+					res.setHeader("Transfer-Encoding", "chunked");
+					res.setHeader("Cache-Control", "no-cache");
+					res.setHeader("Connection", "keep-alive");
+
 					stream.on("data", (chunk) => {
 						const data = { type: "chunk", data: chunk.toString() };
 						res.write(`${JSON.stringify(data)}\n`);
@@ -72,44 +387,35 @@ export class McpServer {
 						res.end();
 					});
 				} else {
-					// Regular non-streaming response
-					const rsp = await this.dispatcher.dispatch(
-						route.method,
-						route.path,
-						args,
-						{},
-						{ timeout },
-					);
-
-					if (rsp.isStreaming && rsp.stream) {
-						// Handle unexpected streaming response
-						const chunks: Buffer[] = [];
-						rsp.stream.on("data", (chunk) => chunks.push(chunk));
-						rsp.stream.on("end", () => {
-							const body = Buffer.concat(chunks).toString();
-							res.status(200).json({
-								ok: true,
-								result: body,
-								status: rsp.status,
-								streaming: true,
-							});
-						});
-						rsp.stream.on("error", (error) => {
-							this.log.error("Stream error:", error);
-							res.status(500).json({
-								ok: false,
-								error: error.message,
-							});
-						});
-					} else {
-						res.status(200).json({
-							ok: true,
-							result: rsp.body,
-							status: rsp.status,
-						});
-					}
+					const rsp = await this.invoke(route, args, context, timeout);
+					res.status(200).json({
+						ok: !this.isErrorStatus(rsp.status),
+						status: rsp.status,
+						...(rsp.streaming && { streaming: true }),
+						// Binary bodies travel as base64 in JSON
+						...(Buffer.isBuffer(rsp.body)
+							? {
+									result: rsp.body.toString("base64"),
+									encoding: "base64",
+									contentType: rsp.contentType,
+									url: rsp.url,
+								}
+							: { result: rsp.body }),
+					});
 				}
 			} catch (e: unknown) {
+				if (e instanceof AccessDeniedError) {
+					return res
+						.status(403)
+						.json({ ok: false, error: e.message, missing: e.missing });
+				}
+				if (e instanceof ParamValidationError) {
+					return res.status(400).json({
+						ok: false,
+						error: e.message,
+						issues: e.issues,
+					});
+				}
 				this.log.error("MCP invoke error", e);
 				res.status(500).json({
 					ok: false,
@@ -119,17 +425,21 @@ export class McpServer {
 							: "Unknown error",
 				});
 			}
-		});
+		};
+		this.handlers.add(tools);
+		this.handlers.add(invoke);
+		app.get(`${basePath}/tools`, ...guard, tools);
+		app.post(`${basePath}/invoke`, ...guard, invoke);
 	}
 
-	async listen(port: number) {
+	async listen(port: number, options: MountOptions = {}) {
 		const express = (await import("express")).default;
 		const app = express();
 		app.use(express.json());
-		this.mount(app as Application, "/mcp");
+		this.mount(app as Application, "/mcp", options);
 		await new Promise<void>((r) => app.listen(port, () => r()));
 		this.log.info(
-			`MCP HTTP gateway listening on :${port} (paths: /mcp/tools, /mcp/invoke)`,
+			`MCP HTTP gateway listening on :${port} (paths: /mcp, /mcp/tools, /mcp/invoke)`,
 		);
 	}
 }
@@ -0,0 +1,151 @@
+import { readFile } from "node:fs/promises";
+import type { RequestHandler } from "express";
+import {
+	type JSONWebKeySet,
+	type JWTPayload,
+	type JWTVerifyGetKey,
+	createLocalJWKSet,
+	createRemoteJWKSet,
+	errors,
+	jwtVerify,
+} from "jose";
+import {
+	AuthError,
+	type AuthOptions,
+	type Authenticator,
+	bearerAuth,
+	claimsPrincipal,
+} from "./auth";
+
+const WELL_KNOWN = "/.well-known/oauth-protected-resource";
+
+/**
+ * The gateway as an OAuth 2.1 protected resource (RFC 9728), accepting JWT
+ * access tokens issued for `resource` by one of `authorizationServers`.
+ */
+export type OAuthOptions = {
+	/** Canonical URL of the MCP endpoint, e.g. `https://api.example.com/mcp` */
+	resource: string;
+	/** Issuers clients get tokens from, advertised in the metadata */
+	authorizationServers: string[];
+	/**
+	 * Signing keys: a JWKS, a path to a JWKS file, or an `https://` JWKS URL
+	 * (fetched and cached)
+	 */
+	jwks: JSONWebKeySet | string;
+	/** Accepted `iss` claims (default: `authorizationServers`) */
+	issuer?: string | string[];
+	/** Accepted `aud` claims (default: `resource`) */
+	audience?: string | string[];
+	/** Scopes every token needs; others get a 403 `insufficient_scope` */
+	requiredScopes?: string[];
+	/** Advertised in the metadata (default: `requiredScopes`) */
+	scopesSupported?: string[];
+	/** Accepted signing algorithms (default: any the keys allow) */
+	algorithms?: string[];
+	/** Claim holding the caller's roles (default `roles`) */
+	rolesClaim?: string;
+	/** Human-readable name of the resource, advertised in the metadata */
+	resourceName?: string;
+};
+
+/** Where `resource`'s metadata lives: the well-known path, then its own path. */
+export function resourceMetadataUrl(resource: string) {
+	const url = new URL(resource);
+	const path = url.pathname.replace(/\/$/, "");
+	return new URL(`${WELL_KNOWN}${path}`, url.origin).href;
+}
+
+/** `WWW-Authenticate` challenge pointing clients at the metadata. */
+export function resourceChallenge(options: OAuthOptions) {
+	return `Bearer resource_metadata="${resourceMetadataUrl(options.resource)}"`;
+}
+
+/** The RFC 9728 protected resource metadata document. */
+export function protectedResourceMetadata(options: OAuthOptions) {
+	const scopes = options.scopesSupported ?? options.requiredScopes;
+	return {
+		resource: options.resource,
+		authorization_servers: options.authorizationServers,
+		bearer_methods_supported: ["header"],
+		...(scopes?.length && { scopes_supported: scopes }),
+		...(options.resourceName && { resource_name: options.resourceName }),
+	};
+}
+
+/**
+ * Serves the metadata on its path-aware well-known path and, for clients
+ * that only try the root one, on `/.well-known/oauth-protected-resource`.
+ */
+export function resourceMetadataRoutes(options: OAuthOptions): {
+	paths: string[];
+	handler: RequestHandler;
+} {
+	const document = protectedResourceMetadata(options);
+	const handler: RequestHandler = (_req, res) => {
+		res.setHeader("Access-Control-Allow-Origin", "*");
+		res.json(document);
+	};
+	const path = new URL(resourceMetadataUrl(options.resource)).pathname;
+	return { paths: [...new Set([path, WELL_KNOWN])], handler };
+}
+
+function keySet(jwks: JSONWebKeySet | string): JWTVerifyGetKey {
+	if (typeof jwks !== "string") return createLocalJWKSet(jwks);
+	if (/^https?:\/\//i.test(jwks)) return createRemoteJWKSet(new URL(jwks));
+	// Read the file on first use, so a missing one fails requests, not startup
+	let local: Promise<JWTVerifyGetKey> | undefined;
+	return async (header, token) => {
+		local ??= readFile(jwks, "utf8").then(
+			(text) => createLocalJWKSet(JSON.parse(text)),
+			(e) => {
+				local = undefined;
+				throw e;
+			},
+		);
+		return (await local)(header, token);
+	};
+}
+
+/** Auth options that make the gateway a protected resource. */
+export function oauthAuth(options: OAuthOptions): AuthOptions {
+	return {
+		authenticate: jwtAuth(options),
+		challenge: resourceChallenge(options),
+	};
+}
+
+/**
+ * Bearer JWT authenticator: checks signature, expiry, issuer, audience and
+ * `requiredScopes`. The principal carries the token's claims.
+ */
+export function jwtAuth(options: OAuthOptions): Authenticator {
+	const keys = keySet(options.jwks);
+	return bearerAuth(async (token) => {
+		let payload: JWTPayload;
+		try {
+			({ payload } = await jwtVerify(token, keys, {
+				issuer: options.issuer ?? options.authorizationServers,
+				audience: options.audience ?? options.resource,
+				algorithms: options.algorithms,
+			}));
+		} catch (e: unknown) {
+			if (e instanceof errors.JOSEError) {
+				throw new AuthError("invalid_token", e.message);
+			}
+			throw e;
+		}
+		const principal = claimsPrincipal(payload, options.rolesClaim);
+		const missing = (options.requiredScopes ?? []).filter(
+			(s) => !principal.scopes?.includes(s),
+		);
+		if (missing.length) {
+			throw new AuthError(
+				"insufficient_scope",
+				`Missing scope ${missing.join(", ")}`,
+				options.requiredScopes,
+			);
+		}
+		return principal;
+	});
+}
@@ -0,0 +1,150 @@
+import { readFile } from "node:fs/promises";
+import { resolve as resolvePath } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { parse as parseYaml } from "yaml";
+import { resolvePointer } from "./refResolver";
+
+type Json = Record<string, unknown>;
+
+/** An OpenAPI document, or where to load one from. */
+export type OpenApiSource = Record<string, unknown> | string | URL;
+
+export function isOpenApiLocation(source: unknown): source is string | URL {
+	return typeof source === "string" || source instanceof URL;
+}
+
+/** Resolve a file path or `file:` / `http(s):` URL to an absolute URL. */
+export function toSourceUrl(source: string | URL) {
+	if (source instanceof URL) return source;
+	if (/^(file|https?):/i.test(source)) return new URL(source);
+	return pathToFileURL(resolvePath(source));
+}
+
+async function readText(url: URL) {
+	if (url.protocol === "file:") {
+		return readFile(fileURLToPath(url), "utf8");
+	}
+	if (url.protocol === "http:" || url.protocol === "https:") {
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} loading OpenAPI from ${url}`);
+		}
+		return response.text();
+	}
+	throw new Error(`Unsupported OpenAPI location: ${url}`);
+}
+
+function parseDocument(text: string, url: URL) {
+	// YAML is a superset of JSON, but JSON.parse is stricter and faster
+	if (url.pathname.endsWith(".json")) return JSON.parse(text);
+	return parseYaml(text);
+}
+
+const isObject = (v: unknown): v is Json =>
+	!!v && typeof v === "object" && !Array.isArray(v);
+
+/** Document identity: the URL without its fragment */
+const docKey = (url: URL) => url.href.replace(/#.*$/, "");
+
+/**
+ * Load an OpenAPI document from YAML or JSON and bundle external `$ref`s
+ * (`./schemas.yaml#/Item`, `https://…/common.json#/Error`) into it.
+ *
+ * External targets are copied under `components.x-bundled` and their refs
+ * rewritten to local pointers, so the result only contains local refs.
+ * `files` lists every local file read, for watching.
+ */
+export async function loadOpenApi(source: string | URL) {
+	const rootUrl = toSourceUrl(source);
+	const documents = new Map<string, Promise<unknown>>();
+	const load = (url: URL) => {
+		const key = docKey(url);
+		let doc = documents.get(key);
+		if (!doc) {
+			doc = readText(new URL(key)).then((text) =>
+				parseDocument(text, new URL(key)),
+			);
+			documents.set(key, doc);
+		}
+		return doc;
+	};
+
+	const root = (await load(rootUrl)) as Json;
+	if (!isObject(root)) {
+		throw new Error(`OpenAPI document at ${rootUrl} is not an object`);
+	}
+
+	const bundled: Json = {};
+	const pointers = new Map<string, string>();
+	const bundleName = (ref: URL) => {
+		const fragment = ref.hash.replace(/^#/, "");
+		const fromFragment = fragment.split("/").filter(Boolean).pop();
+		const fromFile = ref.pathname
+			.split("/")
+			.pop()
+			?.replace(/\.(ya?ml|json)$/i, "");
+		const base = (fromFragment || fromFile || "External").replace(
+			/[^\w.-]/g,
+			"_",
+		);
+		let name = base;
+		for (let i = 2; name in bundled; i++) name = `${base}${i}`;
+		return name;
+	};
+
+	// `base` is the URL of the document `node` came from
+	const walk = async (node: unknown, base: URL): Promise<unknown> => {
+		if (Array.isArray(node)) {
+			return Promise.all(node.map((n) => walk(n, base)));
+		}
+		if (!isObject(node)) return node;
+
+		if (typeof node.$ref === "string") {
+			const target = new URL(node.$ref, base);
+			if (docKey(target) !== docKey(rootUrl)) {
+				const { $ref: _, ...siblings } = node;
+				return { ...siblings, $ref: await external(target) };
+			}
+			if (docKey(base) !== docKey(rootUrl)) {
+				// Local ref inside an external doc that points back into the root
+				return { ...node, $ref: target.hash || "#" };
+			}
+		}
+
+		const out: Json = {};
+		for (const [key, value] of Object.entries(node)) {
+			out[key] = await walk(value, base);
+		}
+		return out;
+	};
+
+	const external = async (ref: URL) => {
+		const known = pointers.get(ref.href);
+		if (known) return known;
+		const name = bundleName(ref);
+		const pointer = `#/components/x-bundled/${name}`;
+		pointers.set(ref.href, pointer);
+		bundled[name] = null; // reserve the name before recursing
+
+		const doc = await load(ref);
+		const target = ref.hash ? resolvePointer(doc, ref.hash) : doc;
+		if (target === undefined) {
+			throw new Error(`Unresolvable $ref: ${ref.href}`);
+		}
+		bundled[name] = await walk(target, ref);
+		return pointer;
+	};
+
+	const doc = (await walk(root, rootUrl)) as Json;
+	if (Object.keys(bundled).length) {
+		const components = isObject(doc.components) ? doc.components : {};
+		doc.components = { ...components, "x-bundled": bundled };
+	}
+
+	const files = [...documents.keys()]
+		.map((href) => new URL(href))
+		.filter((url) => url.protocol === "file:")
+		.map((url) => fileURLToPath(url));
+
+	return { doc, files };
+}
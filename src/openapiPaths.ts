@@ -0,0 +1,95 @@
+import { renderPath } from "./pathParams";
+
+type PathItem = Record<string, any>;
+
+/**
+ * `/items/:id(\d+)?` or `/items{/:id}` → `/items/{id}`; unnamed wildcards
+ * keep their numeric name.
+ */
+export function toOpenApiPath(expressPath: string) {
+	return renderPath(expressPath, (token) => `${token.prefix}{${token.name}}`);
+}
+
+/** `/items/{id}` → `/items/:id` */
+export function fromOpenApiPath(template: string) {
+	return template.replace(/\{([^}]+)\}/g, (_, name: string) => `:${name}`);
+}
+
+/** Collapse duplicate slashes and drop the trailing one (except for `/`). */
+export function normalizePath(path: string) {
+	const collapsed = `/${path}`.replace(/\/{2,}/g, "/");
+	return collapsed.length > 1 ? collapsed.replace(/\/+$/, "") : collapsed;
+}
+
+/**
+ * Path prefixes declared by `servers[].url`, with server variables replaced
+ * by their defaults. `https://api.example.com/v1` and `/v1` both yield `/v1`.
+ */
+export function serverBasePaths(doc: Record<string, any>) {
+	const bases = new Set<string>();
+	for (const server of (doc.servers ?? []) as {
+		url?: string;
+		variables?: Record<string, { default?: string }>;
+	}[]) {
+		if (typeof server.url !== "string") continue;
+		const url = server.url.replace(
+			/\{([^}]+)\}/g,
+			(_, name: string) => server.variables?.[name]?.default ?? "",
+		);
+		let pathname = url;
+		if (/^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+			try {
+				pathname = new URL(url).pathname;
+			} catch {
+				continue;
+			}
+		}
+		const base = normalizePath(pathname);
+		if (base !== "/") bases.add(base);
+	}
+	return [...bases];
+}
+
+const shapeOf = (template: string) =>
+	normalizePath(template).replace(/\{[^}]+\}/g, "{}");
+
+const paramNames = (template: string) =>
+	[...template.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]);
+
+/**
+ * Find the OpenAPI path item for an Express route.
+ *
+ * Matches on template shape, so `/items/:id` finds `/items/{itemId}` with or
+ * without a trailing slash, and `/v1/items/:id` finds it when a server URL
+ * declares `/v1`. `renames` maps OpenAPI path param names to Express ones.
+ */
+export function findPathItem(doc: Record<string, any>, expressPath: string) {
+	const paths = (doc.paths ?? {}) as Record<string, PathItem>;
+	const exact = paths[expressPath] ?? paths[toOpenApiPath(expressPath)];
+	if (exact) return { pathItem: exact, renames: {} };
+
+	const routeTemplate = toOpenApiPath(normalizePath(expressPath));
+	const candidates = [routeTemplate];
+	for (const base of serverBasePaths(doc)) {
+		if (routeTemplate === base) candidates.push("/");
+		else if (routeTemplate.startsWith(`${base}/`)) {
+			candidates.push(routeTemplate.slice(base.length));
+		}
+	}
+
+	for (const candidate of candidates) {
+		const shape = shapeOf(candidate);
+		for (const [template, pathItem] of Object.entries(paths)) {
+			if (shapeOf(template) !== shape) continue;
+			const expressNames = paramNames(candidate);
+			const renames: Record<string, string> = {};
+			for (const [i, name] of paramNames(template).entries()) {
+				if (expressNames[i] && expressNames[i] !== name) {
+					renames[name] = expressNames[i];
+				}
+			}
+			return { pathItem, renames };
+		}
+	}
+	return undefined;
+}
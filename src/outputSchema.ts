@@ -0,0 +1,43 @@
+import { Ajv, type ValidateFunction } from "ajv";
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json =>
+	!!v && typeof v === "object" && !Array.isArray(v);
+
+/**
+ * The `outputSchema` to advertise for a tool, if any. MCP requires an object
+ * schema, and clients then expect `structuredContent` on every successful
+ * call, so the permissive `{ type: "object" }` default is not advertised.
+ */
+export function advertisedOutputSchema(schema: unknown) {
+	if (!isObject(schema) || schema.type !== "object") return undefined;
+	const { type: _, additionalProperties, ...rest } = schema;
+	if (!Object.keys(rest).length && additionalProperties !== false) {
+		return undefined;
+	}
+	return schema as { type: "object"; [key: string]: unknown };
+}
+
+/** JSON bodies that can be sent as `structuredContent` (a JSON object). */
+export function structuredBody(body: unknown) {
+	return isObject(body) ? body : undefined;
+}
+
+// OpenAPI schemas carry keywords Ajv does not know (`nullable`, `example`)
+const ajv = new Ajv({ strict: false, allErrors: true });
+const validators = new Map<string, ValidateFunction>();
+
+/** Validation errors of `value` against `schema`, or none. */
+export function validateOutput(schema: Json, value: unknown): string[] {
+	const key = JSON.stringify(schema);
+	let validate = validators.get(key);
+	if (!validate) {
+		validate = ajv.compile(schema);
+		validators.set(key, validate);
+	}
+	if (validate(value)) return [];
+	return (validate.errors ?? []).map(
+		(e) => `${e.instancePath || "/"} ${e.message ?? "is invalid"}`,
+	);
+}
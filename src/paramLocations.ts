@@ -0,0 +1,159 @@
+import {
+	type ParamIssue,
+	ParamValidationError,
+	bindPathParams,
+} from "./pathParams";
+
+export type ParamLocation = "path" | "query" | "header" | "body";
+
+export type RequestParts = {
+	path: string;
+	query: Record<string, unknown>;
+	headers: Record<string, string>;
+	body: unknown;
+};
+
+const BODYLESS_METHODS = new Set(["GET", "HEAD", "DELETE", "OPTIONS"]);
+
+export function hasRequestBody(method: string) {
+	return !BODYLESS_METHODS.has(method.toUpperCase());
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+	!!v && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date);
+
+/**
+ * Split tool args into the parts of an HTTP request.
+ *
+ * Path tokens always bind to the path. Remaining args go where `locations`
+ * says, otherwise to the query string for body-less methods (GET, HEAD,
+ * DELETE, OPTIONS) and to the JSON body for everything else.
+ */
+export function mapArgs(
+	method: string,
+	pattern: string,
+	args: unknown,
+	locations: Record<string, ParamLocation> = {},
+): RequestParts {
+	const bound = bindPathParams(pattern, args);
+	const withBody = hasRequestBody(method);
+	const parts: RequestParts = {
+		path: bound.path,
+		query: {},
+		headers: {},
+		body: undefined,
+	};
+
+	if (!isPlainObject(bound.rest)) {
+		if (withBody) parts.body = bound.rest;
+		return parts;
+	}
+
+	const body: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(bound.rest)) {
+		const location = locations[key] ?? (withBody ? "body" : "query");
+		if (location === "header") {
+			if (value !== undefined && value !== null) {
+				parts.headers[key.toLowerCase()] = String(value);
+			}
+		} else if (location === "query") {
+			parts.query[key] = value;
+		} else if (location === "body" && withBody) {
+			body[key] = value;
+		}
+	}
+	if (withBody) parts.body = body;
+	return parts;
+}
+
+/**
+ * Same as {@link mapArgs} for args already grouped into
+ * `{ params, query, headers, body }` sections.
+ */
+export function mapSections(
+	method: string,
+	pattern: string,
+	args: unknown,
+): RequestParts {
+	const sections = isPlainObject(args) ? args : {};
+	const bound = bindPathParams(pattern, sections.params);
+	const headers: Record<string, string> = {};
+	if (isPlainObject(sections.headers)) {
+		for (const [key, value] of Object.entries(sections.headers)) {
+			if (value !== undefined && value !== null) {
+				headers[key.toLowerCase()] = String(value);
+			}
+		}
+	}
+	return {
+		path: bound.path,
+		query: isPlainObject(sections.query) ? sections.query : {},
+		headers,
+		body: hasRequestBody(method) ? sections.body : undefined,
+	};
+}
+
+// Longest array `qs` reads back as an array; it turns longer ones into
+// objects keyed by index (6.16 counts items, older versions the index)
+const QUERY_ARRAY_LIMIT = 20;
+
+/**
+ * Serialize a query object the way `qs` (Express' extended query parser)
+ * reads it back: `key[]` for primitive array items, brackets for nesting.
+ * Throws `ParamValidationError` for arrays `qs` cannot read back as arrays:
+ * empty ones and ones over `QUERY_ARRAY_LIMIT` items.
+ */
+export function toQueryString(query: Record<string, unknown>) {
+	const pairs: string[] = [];
+	const issues: ParamIssue[] = [];
+	const add = (key: string, value: unknown) => {
+		if (value === undefined) return;
+		if (value === null) {
+			pairs.push(`${encodeURIComponent(key)}=`);
+		} else if (value instanceof Date) {
+			add(key, value.toISOString());
+		} else if (Array.isArray(value) && !value.length) {
+			issues.push({
+				param: key,
+				reason: "encoding",
+				message: `Query parameter '${key}' is an empty array, which a query string cannot carry; omit it instead`,
+			});
+		} else if (Array.isArray(value) && value.length > QUERY_ARRAY_LIMIT) {
+			issues.push({
+				param: key,
+				reason: "encoding",
+				message: `Query parameter '${key}' has ${value.length} items; a query string carries arrays of at most ${QUERY_ARRAY_LIMIT}`,
+			});
+		} else if (Array.isArray(value)) {
+			// Always bracketed, so a one-element array stays an array
+			for (const [i, item] of value.entries()) {
+				add(
+					item && typeof item === "object" && !(item instanceof Date)
+						? `${key}[${i}]`
+						: `${key}[]`,
+					item,
+				);
+			}
+		} else if (typeof value === "object") {
+			for (const [k, v] of Object.entries(value)) add(`${key}[${k}]`, v);
+		} else {
+			pairs.push(
+				`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`,
+			);
+		}
+	};
+	for (const [key, value] of Object.entries(query)) add(key, value);
+	if (issues.length) {
+		throw new ParamValidationError(
+			issues.map((i) => i.message).join("; "),
+			issues,
+		);
+	}
+	return pairs.join("&");
+}
+
+export function buildUrl(path: string, query: Record<string, unknown>) {
+	const qs = toQueryString(query);
+	if (!qs) return path;
+	return `${path}${path.includes("?") ? "&" : "?"}${qs}`;
+}
@@ -0,0 +1,214 @@
+export type PathToken = {
+	/** Param name; unnamed wildcards are numbered like `req.params[0]` */
+	name: string;
+	/** Separator that precedes the token (`/`, `.` or empty) */
+	prefix: string;
+	optional: boolean;
+	/** Token may span several segments (`*`, `:name*`, `:name+`) */
+	repeat: boolean;
+	/** Inline regexp constraint, e.g. `\d+` for `:id(\d+)` */
+	pattern?: string;
+	/** Exact source text, including the prefix */
+	raw: string;
+	offset: number;
+};
+
+export type ParamIssue = {
+	param: string;
+	reason: "missing" | "pattern" | "encoding";
+	message: string;
+};
+
+export class ParamValidationError extends Error {
+	readonly code = "INVALID_PARAMS";
+
+	constructor(
+		message: string,
+		public readonly issues: ParamIssue[],
+	) {
+		super(message);
+		this.name = "ParamValidationError";
+	}
+}
+
+// Express 4 (path-to-regexp 0.1): `:name`, `:name(re)`, `:name?`, `:name*`,
+// `:name+` and bare `*`. Express 5 (path-to-regexp 8): `:name`, `*name` and
+// `{...}` optional groups. Escaped characters (`\:`) are matched first so
+// they are never taken for tokens.
+const TOKEN_RE =
+	/\\.|([/.])?(?::(\w+)(\((?:\\.|[^\\()])+\))?([?*+])?|\*(\w+)?)/g;
+
+/** Offsets of `{`…`}` optional groups, outside escapes and tokens. */
+function findGroups(path: string, tokens: PathToken[]) {
+	const groups: { open: number; close: number }[] = [];
+	const stack: number[] = [];
+	for (let i = 0; i < path.length; i++) {
+		const token = tokens.find((t) => t.offset === i);
+		if (token) {
+			i += token.raw.length - 1;
+		} else if (path[i] === "\\") {
+			i++;
+		} else if (path[i] === "{") {
+			stack.push(i);
+		} else if (path[i] === "}" && stack.length) {
+			groups.push({ open: stack.pop() as number, close: i });
+		}
+	}
+	return groups;
+}
+
+export function parsePathTokens(path: string): PathToken[] {
+	const tokens: PathToken[] = [];
+	let wildcard = 0;
+	for (const m of path.matchAll(TOKEN_RE)) {
+		const [raw, prefix = "", name, group, modifier, splat] = m;
+		if (raw.startsWith("\\")) continue;
+		const offset = m.index ?? 0;
+		if (!name) {
+			tokens.push({
+				name: splat ?? String(wildcard++),
+				prefix,
+				optional: false,
+				repeat: true,
+				raw,
+				offset,
+			});
+			continue;
+		}
+		tokens.push({
+			name,
+			prefix,
+			optional: modifier === "?" || modifier === "*",
+			repeat: modifier === "*" || modifier === "+",
+			pattern: group ? group.slice(1, -1) : undefined,
+			raw,
+			offset,
+		});
+	}
+	// Everything inside an Express 5 `{...}` group is optional
+	for (const { open, close } of findGroups(path, tokens)) {
+		for (const token of tokens) {
+			if (token.offset > open && token.offset < close) token.optional = true;
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Rewrite a path pattern token by token. `render` returns the replacement
+ * text, or undefined when the token has no value; a `{...}` group with an
+ * unvalued token is dropped. Group braces and escapes are removed.
+ */
+export function renderPath(
+	pattern: string,
+	render: (token: PathToken) => string | undefined,
+) {
+	const tokens = parsePathTokens(pattern);
+	const groups = findGroups(pattern, tokens);
+	const walk = (from: number, to: number) => {
+		let text = "";
+		let complete = true;
+		for (let i = from; i < to; i++) {
+			const token = tokens.find((t) => t.offset === i);
+			const group = groups.find((g) => g.open === i);
+			if (token) {
+				const value = render(token);
+				if (value === undefined) complete = false;
+				else text += value;
+				i += token.raw.length - 1;
+			} else if (group) {
+				const inner = walk(group.open + 1, group.close);
+				if (inner.complete) text += inner.text;
+				i = group.close;
+			} else if (pattern[i] === "\\") {
+				text += pattern[++i] ?? "";
+			} else {
+				text += pattern[i];
+			}
+		}
+		return { text, complete };
+	};
+	return walk(0, pattern.length).text;
+}
+
+export function hasPathParams(path: string) {
+	return parsePathTokens(path).length > 0;
+}
+
+function encodeValue(value: unknown, repeat: boolean) {
+	if (!repeat) return encodeURIComponent(String(value));
+	const segments = Array.isArray(value) ? value : String(value).split("/");
+	return segments
+		.filter((s) => s !== "")
+		.map((s) => encodeURIComponent(String(s)))
+		.join("/");
+}
+
+/**
+ * Substitute tool args into an Express path pattern.
+ *
+ * Args consumed as path params are removed from `rest`; everything else is
+ * left for the query string or body. Throws a {@link ParamValidationError}
+ * when a required param is missing or violates its inline constraint.
+ */
+export function bindPathParams(pattern: string, args: unknown) {
+	const source =
+		args && typeof args === "object" && !Array.isArray(args)
+			? (args as Record<string, unknown>)
+			: {};
+	const tokens = parsePathTokens(pattern);
+	const params: Record<string, unknown> = {};
+	const issues: ParamIssue[] = [];
+
+	const path = renderPath(pattern, (token) => {
+		const value = source[token.name];
+		const empty =
+			value === undefined ||
+			value === null ||
+			value === "" ||
+			(Array.isArray(value) && value.length === 0);
+
+		if (empty) {
+			if (!token.optional) {
+				issues.push({
+					param: token.name,
+					reason: "missing",
+					message: `Missing required path parameter '${token.name}'`,
+				});
+			}
+			return undefined;
+		}
+
+		if (
+			token.pattern &&
+			!new RegExp(`^(?:${token.pattern})$`).test(String(value))
+		) {
+			issues.push({
+				param: token.name,
+				reason: "pattern",
+				message: `Path parameter '${token.name}' must match /${token.pattern}/`,
+			});
+			return undefined;
+		}
+
+		params[token.name] = value;
+		return `${token.prefix}${encodeValue(value, token.repeat)}`;
+	});
+
+	if (issues.length) {
+		throw new ParamValidationError(
+			issues.map((i) => i.message).join("; "),
+			issues,
+		);
+	}
+
+	let rest: unknown = args;
+	if (tokens.length && args === source) {
+		const names = new Set(tokens.map((t) => t.name));
+		rest = Object.fromEntries(
+			Object.entries(source).filter(([k]) => !names.has(k)),
+		);
+	}
+
+	return { path: path || "/", params, rest };
+}
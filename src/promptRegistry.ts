@@ -0,0 +1,207 @@
+import { ParamValidationError } from "./pathParams";
+import type { ToolDefinition } from "./schemaResolver";
+import {
+	type PromptMessages,
+	PromptNotFoundError,
+	type SourcePrompt,
+} from "./toolSource";
+
+type Logger = {
+	info: (...a: unknown[]) => void;
+	error: (...a: unknown[]) => void;
+	warn?: (...a: unknown[]) => void;
+};
+
+type JsonSchema = Record<string, unknown>;
+type PromptArgument = NonNullable<SourcePrompt["arguments"]>[number];
+
+/**
+ * A hand-written prompt, e.g. a workflow over several tools. `{{name}}` in
+ * `text` is replaced with the `name` argument.
+ */
+export type PromptTemplate = {
+	name: string;
+	title?: string;
+	description?: string;
+	arguments?: PromptArgument[];
+	/** Tools the prompt refers to, by name; they are described after the text */
+	tools?: string[];
+	text: string | ((args: Record<string, string>) => string);
+};
+
+type Entry = {
+	prompt: SourcePrompt;
+	/** Tools the prompt leads to */
+	tools: ToolDefinition[];
+	render: (args: Record<string, string>) => string;
+};
+
+const SECTIONS = ["params", "query", "headers", "body"];
+
+const isObject = (v: unknown): v is JsonSchema =>
+	!!v && typeof v === "object" && !Array.isArray(v);
+
+/** Prompt arguments for a tool's input properties, flat or in sections. */
+function toolArguments(tool: ToolDefinition): PromptArgument[] {
+	const schema = tool.inputSchema as JsonSchema;
+	const properties = isObject(schema.properties) ? schema.properties : {};
+	const required = new Set(
+		Array.isArray(schema.required) ? (schema.required as string[]) : [],
+	);
+	const sectioned =
+		Object.keys(properties).length > 0 &&
+		Object.keys(properties).every((k) => SECTIONS.includes(k));
+	if (sectioned) {
+		return Object.values(properties).flatMap((section) =>
+			isObject(section) ? toolArguments({ ...tool, inputSchema: section }) : [],
+		);
+	}
+	return Object.entries(properties).map(([name, property]) => ({
+		name,
+		...(isObject(property) &&
+			typeof property.description === "string" && {
+				description: property.description,
+			}),
+		required: required.has(name),
+	}));
+}
+
+/**
+ * MCP prompts: one per selected route ("Create an item", with the tool's
+ * inputs as argument slots), plus hand-written {@link PromptTemplate}s.
+ */
+export class PromptRegistry {
+	private entries = new Map<string, Entry>();
+
+	constructor(private log: Logger = console) {}
+
+	load(
+		tools: ToolDefinition[],
+		routeTools: ToolDefinition[] = [],
+		templates: PromptTemplate[] = [],
+	) {
+		this.entries.clear();
+		const byName = new Map(tools.map((t) => [t.name, t]));
+		for (const template of templates) {
+			this.entries.set(template.name, this.fromTemplate(template, byName));
+		}
+		for (const tool of routeTools) {
+			// Hand-written prompts win over generated ones of the same name
+			if (!this.entries.has(tool.name)) {
+				this.entries.set(tool.name, this.fromTool(tool));
+			}
+		}
+	}
+
+	/** Prompts whose tools `allowed` all accepts (default: all prompts). */
+	listPrompts(allowed: (tool: ToolDefinition) => boolean = () => true) {
+		return [...this.entries.values()]
+			.filter((e) => e.tools.every(allowed))
+			.map((e) => e.prompt);
+	}
+
+	/** Prompts `allowed` rejects a tool of are not found, as when listing. */
+	getPrompt(
+		name: string,
+		args: Record<string, string> = {},
+		allowed: (tool: ToolDefinition) => boolean = () => true,
+	): PromptMessages {
+		const entry = this.entries.get(name);
+		if (!entry?.tools.every(allowed)) throw new PromptNotFoundError(name);
+		const missing = (entry.prompt.arguments ?? []).filter(
+			(a) => a.required && (args[a.name] === undefined || args[a.name] === ""),
+		);
+		if (missing.length) {
+			const issues = missing.map((a) => ({
+				param: a.name,
+				reason: "missing" as const,
+				message: `Missing required argument '${a.name}'`,
+			}));
+			throw new ParamValidationError(
+				issues.map((i) => i.message).join("; "),
+				issues,
+			);
+		}
+		return {
+			...(entry.prompt.description && {
+				description: entry.prompt.description,
+			}),
+			messages: [
+				{ role: "user", content: { type: "text", text: entry.render(args) } },
+			],
+		};
+	}
+
+	private fromTool(tool: ToolDefinition): Entry {
+		const args = toolArguments(tool);
+		const summary = "summary" in tool ? tool.summary : undefined;
+		return {
+			prompt: {
+				name: tool.name,
+				title: summary ?? tool.title,
+				description: tool.description,
+				arguments: args,
+			},
+			tools: [tool],
+			render: (values) => {
+				const lines = [summary ?? tool.description];
+				if (summary && tool.description !== summary) {
+					lines.push(tool.description);
+				}
+				const given = args.filter((a) => values[a.name] !== undefined);
+				lines.push(
+					"",
+					`Use the \`${tool.name}\` tool (${tool.title})${given.length ? " with these arguments:" : "."}`,
+					...given.map((a) => `- ${a.name}: ${values[a.name]}`),
+				);
+				if (tool.examples.length) {
+					lines.push(
+						"",
+						"Example arguments:",
+						JSON.stringify(tool.examples[0], null, 2),
+					);
+				}
+				return lines.join("\n");
+			},
+		};
+	}
+
+	private fromTemplate(
+		template: PromptTemplate,
+		tools: Map<string, ToolDefinition>,
+	): Entry {
+		const refs = template.tools ?? [];
+		for (const name of refs) {
+			if (!tools.has(name)) {
+				(this.log.warn ?? this.log.info)(
+					`Prompt '${template.name}' refers to unknown tool '${name}'`,
+				);
+			}
+		}
+		return {
+			prompt: {
+				name: template.name,
+				title: template.title,
+				description: template.description,
+				arguments: template.arguments ?? [],
+			},
+			tools: refs.flatMap((name) => tools.get(name) ?? []),
+			render: (values) => {
+				const text =
+					typeof template.text === "function"
+						? template.text(values)
+						: template.text.replace(
+								/\{\{\s*(\w+)\s*\}\}/g,
+								(_, name: string) => values[name] ?? "",
+							);
+				const described = refs.flatMap((name) => {
+					const tool = tools.get(name);
+					return tool ? [`- \`${name}\`: ${tool.description}`] : [];
+				});
+				return described.length
+					? `${text}\n\nTools:\n${described.join("\n")}`
+					: text;
+			},
+		};
+	}
+}
@@ -0,0 +1,129 @@
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json =>
+	!!v && typeof v === "object" && !Array.isArray(v);
+
+function unescapePointer(segment: string) {
+	return decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/** Resolve a local JSON pointer such as `#/components/schemas/Item`. */
+export function resolvePointer(doc: unknown, ref: string): unknown {
+	if (!ref.startsWith("#")) return undefined;
+	const segments = ref.slice(1).split("/").filter(Boolean).map(unescapePointer);
+	let node: unknown = doc;
+	for (const segment of segments) {
+		if (!node || typeof node !== "object") return undefined;
+		node = (node as Json)[segment];
+	}
+	return node;
+}
+
+/**
+ * Dereferences local `$ref`s against one OpenAPI document.
+ *
+ * Schemas are inlined, except recursive ones: those are bundled once under
+ * `defs` and referenced as `#/$defs/<Name>`, so the caller must attach
+ * {@link RefResolver.defs} to the root of the schema it hands out. Use one
+ * resolver per emitted root schema.
+ */
+export class RefResolver {
+	readonly defs: Json = {};
+	private defNames = new Map<string, string>();
+	private recursive = new Set<string>();
+
+	constructor(private doc: unknown) {}
+
+	/**
+	 * Follow a `$ref` chain on a component object (parameter, requestBody,
+	 * response) without touching nested schemas.
+	 */
+	object<T = Json>(node: unknown): T | undefined {
+		const seen = new Set<string>();
+		let current = node;
+		while (isObject(current) && typeof current.$ref === "string") {
+			if (seen.has(current.$ref)) return undefined;
+			seen.add(current.$ref);
+			current = resolvePointer(this.doc, current.$ref);
+		}
+		return current as T | undefined;
+	}
+
+	schema<T = unknown>(node: T): T {
+		return this.walk(node, []) as T;
+	}
+
+	private defName(ref: string) {
+		const existing = this.defNames.get(ref);
+		if (existing) return existing;
+		const base = unescapePointer(ref.split("/").pop() || "Schema");
+		const taken = new Set(this.defNames.values());
+		let name = base;
+		for (let i = 2; taken.has(name); i++) name = `${base}${i}`;
+		this.defNames.set(ref, name);
+		return name;
+	}
+
+	private walk(node: unknown, stack: string[]): unknown {
+		if (Array.isArray(node)) return node.map((n) => this.walk(n, stack));
+		if (!isObject(node)) return node;
+
+		const ref = node.$ref;
+		if (typeof ref === "string" && ref.startsWith("#/")) {
+			const target = resolvePointer(this.doc, ref);
+			// Unknown pointers (e.g. schema-local `#/$defs/...`) stay as-is
+			if (target !== undefined) return this.inline(node, ref, target, stack);
+		}
+
+		const out: Json = {};
+		for (const [key, value] of Object.entries(node)) {
+			out[key] = this.walk(value, stack);
+		}
+		return out;
+	}
+
+	private inline(node: Json, ref: string, target: unknown, stack: string[]) {
+		const pointer = { $ref: `#/$defs/${this.defName(ref)}` };
+		if (stack.includes(ref)) {
+			this.recursive.add(ref);
+			return pointer;
+		}
+		if (this.defs[this.defName(ref)] !== undefined) return pointer;
+
+		const resolved = this.walk(target, [...stack, ref]);
+		if (this.recursive.has(ref)) {
+			this.defs[this.defName(ref)] = resolved;
+			return pointer;
+		}
+
+		// OpenAPI 3.1 allows siblings next to `$ref` (description, nullable…)
+		const { $ref: _, ...siblings } = node;
+		if (!Object.keys(siblings).length || !isObject(resolved)) return resolved;
+		return { ...resolved, ...(this.walk(siblings, stack) as Json) };
+	}
+}
+
+/** Inline local refs in `schema`, attaching bundled recursive defs at its root. */
+export function dereferenceSchema(doc: unknown, schema: unknown): unknown {
+	const resolver = new RefResolver(doc);
+	const out = resolver.schema(schema);
+	return withDefs(out, resolver.defs);
+}
+
+/**
+ * Attach bundled `$defs` to a root schema. A root that is itself just a
+ * pointer into the defs is unwrapped so its properties stay visible.
+ */
+export function withDefs(schema: unknown, defs: Json): unknown {
+	if (!Object.keys(defs).length || !isObject(schema)) return schema;
+	let root = schema;
+	const keys = Object.keys(root);
+	if (keys.length === 1 && typeof root.$ref === "string") {
+		const target = defs[root.$ref.replace("#/$defs/", "")];
+		if (isObject(target)) root = target;
+	}
+	return {
+		...root,
+		$defs: { ...(root.$defs as Json | undefined), ...defs },
+	};
+}
@@ -0,0 +1,125 @@
+import { DEFAULT_RESOURCE_BASE_URI, resourceUri } from "./binaryContent";
+import type { RouteInfo } from "./index";
+import { parsePathTokens, renderPath } from "./pathParams";
+import type { SchemaResolver } from "./schemaResolver";
+import type { SourceResource, SourceResourceTemplate } from "./toolSource";
+
+type Logger = {
+	info: (...a: unknown[]) => void;
+	error: (...a: unknown[]) => void;
+	warn?: (...a: unknown[]) => void;
+};
+
+type Entry = {
+	route: RouteInfo;
+	/** Matches a URI's path; one capture per path param */
+	regexp: RegExp;
+	params: string[];
+} & (
+	| { resource: SourceResource; template?: undefined }
+	| { template: SourceResourceTemplate; resource?: undefined }
+);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * GET routes exposed as MCP resources: static paths as resources
+ * (`/status` → `express://app/status`), paths with params as resource
+ * templates (`/items/:id` → `express://app/items/{id}`).
+ */
+export class ResourceRegistry {
+	private entries: Entry[] = [];
+
+	constructor(
+		private schemas: SchemaResolver,
+		private baseUri = DEFAULT_RESOURCE_BASE_URI,
+		private log: Logger = console,
+	) {}
+
+	load(routes: RouteInfo[]) {
+		this.entries = [];
+		for (const route of routes) {
+			const entry = this.toEntry(route);
+			if (entry) this.entries.push(entry);
+		}
+	}
+
+	/** Resources of the routes `allowed` accepts (default: all). */
+	listResources(allowed: (route: RouteInfo) => boolean = () => true) {
+		return this.entries.flatMap((e) =>
+			e.resource && allowed(e.route) ? [e.resource] : [],
+		);
+	}
+
+	listResourceTemplates(allowed: (route: RouteInfo) => boolean = () => true) {
+		return this.entries.flatMap((e) =>
+			e.template && allowed(e.route) ? [e.template] : [],
+		);
+	}
+
+	/**
+	 * The route behind a resource URI, with its path params and the URI's
+	 * query params as args. Static resources win over templates.
+	 */
+	match(uri: string) {
+		const base = this.baseUri.replace(/\/+$/, "");
+		if (!uri.startsWith(`${base}/`) && uri !== base) return undefined;
+		const url = new URL(uri.slice(base.length) || "/", "http://localhost");
+		const query = Object.fromEntries(url.searchParams);
+		const ordered = [
+			...this.entries.filter((e) => e.resource),
+			...this.entries.filter((e) => e.template),
+		];
+		for (const entry of ordered) {
+			const m = entry.regexp.exec(url.pathname);
+			if (!m) continue;
+			const params: Record<string, string> = {};
+			try {
+				entry.params.forEach((name, i) => {
+					params[name] = decodeURIComponent(m[i + 1]);
+				});
+			} catch {
+				return undefined;
+			}
+			return { route: entry.route, params, query };
+		}
+		return undefined;
+	}
+
+	/** The resource URI of `route` called with `url`, if it is a resource. */
+	uriOf(route: RouteInfo, url: string) {
+		const uri = resourceUri(this.baseUri, url);
+		return this.match(uri)?.route === route ? uri : undefined;
+	}
+
+	private toEntry(route: RouteInfo): Entry | undefined {
+		const tokens = parsePathTokens(route.path);
+		// URI templates have no optional or multi-segment variables
+		const unsupported = tokens.find((t) => t.optional || t.repeat);
+		if (unsupported) {
+			(this.log.warn ?? this.log.info)(
+				`Not exposing ${route.method} ${route.path} as a resource: '${unsupported.raw}' has no URI template form`,
+			);
+			return undefined;
+		}
+
+		const tool = this.schemas.toTool(route);
+		const meta = {
+			name: tool.name,
+			title: tool.title,
+			description: tool.description,
+		};
+		const params = tokens.map((t) => t.name);
+		const path = renderPath(route.path, (t) => `${t.prefix}{${t.name}}`);
+		// Like Express: case-insensitive, with an optional trailing slash
+		const source = path
+			.split(/\{\w+\}/)
+			.map(escapeRegExp)
+			.join("([^/]+)");
+		const regexp = new RegExp(`^${source}/?$`, "i");
+		const uri = resourceUri(this.baseUri, path);
+		return params.length
+			? { route, regexp, params, template: { uriTemplate: uri, ...meta } }
+			: { route, regexp, params, resource: { uri, ...meta } };
+	}
+}
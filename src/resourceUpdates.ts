@@ -0,0 +1,74 @@
+import type { Application, NextFunction, Request, Response } from "express";
+import { getAppRouter } from "./routeIntrospector";
+
+/** A request that changed something, seen once its response finished. */
+export type ResourceMutation = {
+	method: string;
+	/** Pattern of the route that handled it, e.g. `/items/:id` */
+	route?: string;
+	/** Request path without the query string, e.g. `/items/42` */
+	path: string;
+	params: Record<string, string>;
+	status: number;
+};
+
+/**
+ * Resources a mutation changed, as URIs or app paths (`/items/42`).
+ * Return nothing to report no changes.
+ */
+export type ResourceUpdateMapper = (
+	mutation: ResourceMutation,
+) => string[] | undefined;
+
+const MUTATION_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Default mapping: the request path and its parents, so `PUT /items/42`
+ * updates `/items/42` and `/items`.
+ */
+export const defaultResourceUpdates: ResourceUpdateMapper = ({ path }) => {
+	const segments = path.split("/").filter(Boolean);
+	const paths: string[] = [];
+	for (let i = segments.length; i > 0; i--) {
+		paths.push(`/${segments.slice(0, i).join("/")}`);
+	}
+	return paths.length ? paths : ["/"];
+};
+
+type RouteLike = { path?: unknown; stack?: { handle?: unknown }[] };
+
+/**
+ * Report POST/PUT/PATCH/DELETE requests handled by a route once their
+ * response finished, whether they came over HTTP or the in-memory
+ * dispatcher. The observer runs first in the app's middleware stack;
+ * routes with a handler for which `ignore` returns true are not reported.
+ */
+export function observeMutations(
+	app: Application,
+	onMutation: (mutation: ResourceMutation) => void,
+	ignore: (handler: unknown) => boolean = () => false,
+) {
+	const observer = (req: Request, res: Response, next: NextFunction) => {
+		if (MUTATION_METHODS.has(req.method)) {
+			res.once("finish", () => {
+				const route = req.route as RouteLike | undefined;
+				if (!route || route.stack?.some((l) => ignore(l.handle))) return;
+				onMutation({
+					method: req.method,
+					route:
+						typeof route.path === "string"
+							? `${req.baseUrl ?? ""}${route.path}`
+							: undefined,
+					path: (req.originalUrl ?? req.url).split("?")[0],
+					params: { ...req.params },
+					status: res.statusCode,
+				});
+			});
+		}
+		next();
+	};
+	app.use(observer);
+	// Move it ahead of the routes registered so far
+	const stack = (getAppRouter(app) as unknown as { stack: unknown[] }).stack;
+	stack.unshift(stack.pop());
+}
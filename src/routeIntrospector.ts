@@ -1,16 +1,314 @@
+import { METHODS } from "node:http";
 import type { Application } from "express";
 import type { ExpressMCPOptions, RouteInfo } from "./index";
 
+export type Layer = {
+	route?: unknown;
+	name?: string;
+	handle?: { stack?: unknown[] };
+	// Express 4 keeps the compiled mount path on the layer
+	regexp?: RegExp & { fast_slash?: boolean; fast_star?: boolean };
+	keys?: { name: string | number; optional?: boolean }[];
+	// Express 5 only keeps opaque matchers, plus `slash` for `/` mounts
+	matchers?: Matcher[];
+	slash?: boolean;
+};
+
+/** An Express 5 layer matcher (path-to-regexp 8 `match`) */
+type Matcher = (
+	path: string,
+) => false | { path: string; params: Record<string, unknown> };
+
+type RouteLayer = {
+	method?: string;
+	handle?: (...args: unknown[]) => unknown;
+};
+
+type Router = {
+	stack?: Layer[];
+};
+
+/** Methods exposed as tools unless `methods` is set. */
+export const DEFAULT_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+/** The app router: `app._router` in Express 4, `app.router` in Express 5. */
+export function getAppRouter(app: Application): Router | undefined {
+	const legacy = (app as unknown as { _router?: Router })._router;
+	if (legacy) return legacy;
+	if (
+		typeof (app as unknown as { lazyrouter?: unknown }).lazyrouter ===
+		"function"
+	) {
+		// Express 4 before any route was registered; `app.router` throws there
+		return undefined;
+	}
+	return (app as unknown as { router?: Router }).router;
+}
+
+/** Index of the `)` closing the group that opens at `start`. */
+function closingParen(src: string, start: number) {
+	let depth = 0;
+	let inClass = false;
+	for (let i = start; i < src.length; i++) {
+		const c = src[i];
+		if (c === "\\") i++;
+		else if (inClass) inClass = c !== "]";
+		else if (c === "[") inClass = true;
+		else if (c === "(") depth++;
+		else if (c === ")" && --depth === 0) return i;
+	}
+	return -1;
+}
+
+/** Split on `|` that is not nested inside a group or character class. */
+function splitAlternatives(src: string) {
+	const parts: string[] = [];
+	let last = 0;
+	for (let i = 0; i < src.length; i++) {
+		const c = src[i];
+		if (c === "\\") i++;
+		else if (c === "(" || c === "[") {
+			i = c === "(" ? closingParen(src, i) : src.indexOf("]", i + 1);
+			if (i < 0) return [src];
+		} else if (c === "|") {
+			parts.push(src.slice(last, i));
+			last = i + 1;
+		}
+	}
+	parts.push(src.slice(last));
+	return parts;
+}
+
+// Default param captures emitted by path-to-regexp 0.1 (`[^/]+?`, or the
+// lookahead form used when a param is followed by another delimiter)
+const PLAIN_CAPTURE = /^(?:\[\^\\?\/\]\+\?|\(\?:\(\?!.*\)\.\)\+\?)$/;
+
+/**
+ * Rebuild an Express path from one alternative of a layer regexp, naming
+ * params from the layer `keys`. Returns undefined for hand-written RegExps.
+ */
+function decodeLayerSource(src: string, nextKey: () => string | undefined) {
+	let path = "";
+	let i = 0;
+	while (i < src.length) {
+		const c = src[i];
+		if (c === "\\") {
+			path += src[i + 1];
+			i += 2;
+		} else if (src.startsWith("(.*)", i)) {
+			if (nextKey() === undefined) return undefined;
+			path += "*";
+			i += 4;
+		} else if (src.startsWith("(?:", i)) {
+			const end = closingParen(src, i);
+			if (end < 0) return undefined;
+			let inner = src.slice(i + 3, end);
+			const optional = src[end + 1] === "?";
+			i = end + (optional ? 2 : 1);
+
+			let prefix = "";
+			if (inner.startsWith("\\/") || inner.startsWith("\\.")) {
+				prefix = inner[1];
+				inner = inner.slice(2);
+			}
+			if (
+				!inner.startsWith("(") ||
+				closingParen(inner, 0) !== inner.length - 1
+			) {
+				return undefined;
+			}
+			const capture = inner.slice(1, -1);
+			const name = nextKey();
+			if (name === undefined) return undefined;
+			const constraint = PLAIN_CAPTURE.test(capture) ? "" : `(${capture})`;
+			path += `${prefix}:${name}${constraint}${optional ? "?" : ""}`;
+		} else if ("()[]{}*+?.|^$".includes(c)) {
+			return undefined;
+		} else {
+			path += c;
+			i++;
+		}
+	}
+	return path;
+}
+
+// A path-to-regexp 8 prefix matcher: the alternatives, then the optional
+// trailing slash and the segment boundary `end: false` adds
+const PREFIX_SOURCE = /^\^\(\?:(.*)\)\(\?:\\\/\$\)\?\(\?=\\\/\|\$\)$/;
+
+// Names router 2 and path-to-regexp 8 give their matcher closures: only
+// `match` ones run a regexp built from a path string
+const PATH_MATCHER = "match";
+const REGEXP_MATCHER = "regexpMatcher";
+
+/**
+ * Whether a layer is an Express 5 (router 2) one: path-to-regexp 8 `match`
+ * closures instead of a compiled `regexp`.
+ */
+function isExpress5Layer(
+	layer: Layer,
+): layer is Layer & { matchers: Matcher[] } {
+	return (
+		!layer.regexp &&
+		Array.isArray(layer.matchers) &&
+		layer.matchers.every((m) => typeof m === "function")
+	);
+}
+
+/**
+ * The RegExp an Express 5 matcher runs. path-to-regexp 8 keeps it in a
+ * closure and exposes no source, so `RegExp.prototype.exec` is swapped for
+ * one synchronous probe call and restored right after.
+ */
+export function matcherRegExp(matcher: Matcher) {
+	const { exec } = RegExp.prototype;
+	let used: RegExp | undefined;
+	RegExp.prototype.exec = function (this: RegExp, input: string) {
+		used ??= this;
+		return exec.call(this, input);
+	};
+	try {
+		matcher("/");
+	} finally {
+		RegExp.prototype.exec = exec;
+	}
+	return used;
+}
+
+/**
+ * Rebuild the Express 5 path of one matcher alternative. Captures get
+ * placeholder values, and the matcher itself tells which param got which.
+ */
+function decodeMatcherSource(src: string, matcher: Matcher) {
+	const parts: (string | { capture: string })[] = [];
+	let i = 0;
+	while (i < src.length) {
+		const c = src[i];
+		if (c === "\\") {
+			parts.push(src[i + 1]);
+			i += 2;
+		} else if (c === "(" && src[i + 1] !== "?") {
+			const end = closingParen(src, i);
+			if (end < 0) return undefined;
+			parts.push({ capture: src.slice(i + 1, end) });
+			i = end + 1;
+		} else if ("()[]{}*+?.|^$".includes(c)) {
+			return undefined;
+		} else {
+			parts.push(c);
+			i++;
+		}
+	}
+	let n = 0;
+	const values = parts.map((p) => (typeof p === "string" ? p : `p${n++}mcp`));
+	const match = matcher(values.join(""));
+	if (!match) return undefined;
+	const names = new Map(
+		// Wildcards come back as arrays of segments
+		Object.entries(match.params).map(([name, value]) => [
+			[value].flat().join("/"),
+			name,
+		]),
+	);
+	let path = "";
+	for (const [k, part] of parts.entries()) {
+		if (typeof part === "string") {
+			path += part;
+			continue;
+		}
+		const name = names.get(values[k]);
+		if (name === undefined) return undefined;
+		path += `${part.capture === "[^]+" ? "*" : ":"}${name}`;
+	}
+	return path;
+}
+
+/** Mount paths behind Express 5 matchers, one per path alternative. */
+function matcherMountPaths(matchers: Matcher[]) {
+	const paths: string[] = [];
+	for (const matcher of matchers) {
+		if (matcher.name !== PATH_MATCHER) return undefined;
+		const source = matcherRegExp(matcher)?.source.match(PREFIX_SOURCE)?.[1];
+		if (source === undefined) return undefined;
+		for (const alternative of splitAlternatives(source)) {
+			const path = decodeMatcherSource(alternative, matcher);
+			if (path === undefined) return undefined;
+			paths.push(path);
+		}
+	}
+	return paths;
+}
+
+/**
+ * Mount paths of a `router` layer, e.g. `["/api/v1"]` for
+ * `app.use('/api/v1', router)` or `[""]` for `app.use(router)`.
+ */
+export function layerMountPaths(layer: Layer): string[] | undefined {
+	if (layer.slash) return [""];
+	if (isExpress5Layer(layer)) return matcherMountPaths(layer.matchers);
+	const re = layer.regexp;
+	if (!re) return undefined;
+	if (re.fast_slash) return [""];
+	if (re.fast_star) return ["*"];
+
+	const keys = layer.keys ?? [];
+	let keyIndex = 0;
+	const nextKey = () => {
+		const key = keys[keyIndex++];
+		return key === undefined ? undefined : String(key.name);
+	};
+
+	const paths: string[] = [];
+	for (const alternative of splitAlternatives(re.source)) {
+		const src = alternative
+			.replace(/^\^/, "")
+			.replace(/\\\/\?\(\?=\\\/\|\$\)$/, "");
+		const path = decodeLayerSource(src, nextKey);
+		if (path === undefined) return undefined;
+		paths.push(path);
+	}
+	return paths;
+}
+
+/** An Express 5 layer on a string path whose matcher could not be read. */
+const undecodable = (layer: Layer) =>
+	isExpress5Layer(layer) &&
+	layer.matchers.every((m) => m.name !== REGEXP_MATCHER);
+
+export function joinPaths(prefix: string, path: string) {
+	if (!prefix) return path;
+	if (!path || path === "/") return prefix;
+	return `${prefix}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
 export class RouteIntrospector {
 	constructor(private app: Application) {}
 
 	listRoutes(options?: ExpressMCPOptions): RouteInfo[] {
-		const router: unknown = (this.app as unknown)._router;
-		if (!router || !("stack" in router)) {
+		const router = getAppRouter(this.app);
+		if (!router?.stack) {
 			return [];
 		}
 		const routes: RouteInfo[] = [];
-		const push = (path: string, route: unknown) => {
+		const log = options?.logging;
+		const warn = log?.warn ?? log?.info ?? console.warn;
+		const allowed = new Set(
+			(options?.methods ?? DEFAULT_METHODS).map((m) => m.toUpperCase()),
+		);
+		const allMethods = options?.allMethods ?? [...allowed];
+		// Express dispatches to the first matching route, so later duplicates
+		// (e.g. `app.get('/x')` followed by `app.all('/x')`) are unreachable
+		const seen = new Set<string>();
+		const emit = (info: RouteInfo) => {
+			if (!allowed.has(info.method)) return;
+			const key = `${info.method} ${info.path}`;
+			if (seen.has(key)) return;
+			seen.add(key);
+			if (options?.include && !options.include(info)) return;
+			if (options?.exclude?.(info)) return;
+			routes.push(info);
+		};
+		const push = (prefix: string, route: unknown) => {
 			if (
 				!route ||
 				typeof route !== "object" ||
@@ -19,56 +317,82 @@ export class RouteIntrospector {
 			) {
 				return;
 			}
-			const stack = (route as { stack?: unknown[] }).stack || [];
-			const handlers = stack
-				.map((s: unknown) =>
-					s && typeof s === "object" && "handle" in s
-						? (s as { handle: unknown }).handle
-						: null,
-				)
-				.filter(Boolean);
-			const handler = handlers[handlers.length - 1] as (
-				...args: unknown[]
-			) => unknown;
-			const middlewares = handlers.slice(0, -1) as ((
-				...args: unknown[]
-			) => unknown)[];
-			const methods = (route as { methods: Record<string, boolean> }).methods;
-			for (const method of Object.keys(methods)) {
-				const info = {
-					method: method.toUpperCase(),
-					path,
-					middlewares,
-					handler,
-				};
-				if (options?.include && !options.include(info)) continue;
-				if (options?.exclude?.(info)) continue;
-				routes.push(info);
+			const { stack = [], methods } = route as {
+				stack?: RouteLayer[];
+				methods: Record<string, boolean>;
+			};
+			// `route.all()` sets `_all` while `app.all()` registers every HTTP
+			// method; either way expose the route as `allMethods` only
+			const verbs = Object.keys(methods)
+				.filter((m) => m !== "_all")
+				.map((m) => m.toUpperCase());
+			const all =
+				methods._all || METHODS.every((m) => methods[m.toLowerCase()]);
+			const explicit = methods._all || !all ? verbs : [];
+			const expanded = all
+				? allMethods
+						.map((m) => m.toUpperCase())
+						.filter((m) => !explicit.includes(m))
+				: [];
+
+			const paths = [(route as { path?: unknown }).path].flat(
+				Number.POSITIVE_INFINITY,
+			);
+			for (const method of [...explicit, ...expanded]) {
+				// Handlers registered for this method, or for every method
+				const handlers = stack
+					.filter((s) => !s.method || s.method.toUpperCase() === method)
+					.map((s) => s.handle)
+					.filter(Boolean) as ((...args: unknown[]) => unknown)[];
+				for (const routePath of paths) {
+					let path: string | undefined;
+					if (typeof routePath === "string") path = routePath;
+					else if (routePath instanceof RegExp) {
+						path = options?.nameRegExpRoute?.(routePath, method);
+						if (path === undefined) {
+							warn(
+								`Skipping ${method} route with RegExp path ${routePath} under '${prefix || "/"}'`,
+							);
+							continue;
+						}
+					} else continue;
+					emit({
+						method,
+						path: joinPaths(prefix, path),
+						middlewares: handlers.slice(0, -1),
+						handler: handlers[handlers.length - 1],
+					});
+				}
 			}
 		};
 
-		for (const layer of (router as { stack: unknown[] }).stack) {
-			const layerObj = layer as {
-				route?: unknown;
-				name?: string;
-				handle?: { stack?: unknown[] };
-			};
-			// Check if this layer has a route directly
-			if (layerObj.route) {
-				const route = layerObj.route as { path: string };
-				push(route.path, layerObj.route);
-			}
-			// Check if this is a nested router
-			else if (layerObj.name === "router" && layerObj.handle?.stack) {
-				for (const sub of layerObj.handle.stack) {
-					const subObj = sub as { route?: unknown };
-					if (subObj.route) {
-						const subRoute = subObj.route as { path: string };
-						push(subRoute.path, subObj.route);
+		const walk = (stack: unknown[], prefix: string) => {
+			for (const layer of stack) {
+				const layerObj = layer as Layer;
+				// Check if this layer has a route directly
+				if (layerObj.route) {
+					push(prefix, layerObj.route);
+				}
+				// Nested routers carry their mount path in the layer regexp
+				else if (layerObj.name === "router" && layerObj.handle?.stack) {
+					const mounts = layerMountPaths(layerObj);
+					if (!mounts && undecodable(layerObj)) {
+						warn(
+							`Skipping router under '${prefix || "/"}': its Express 5 mount path could not be decoded, this router version may not be supported`,
+						);
+					} else if (!mounts) {
+						warn(
+							`Skipping router with unknown mount path under '${prefix || "/"}'`,
+						);
+					}
+					for (const mount of mounts ?? []) {
+						walk(layerObj.handle.stack, joinPaths(prefix, mount));
 					}
 				}
 			}
-		}
+		};
+
+		walk(router.stack, "");
 		return routes;
 	}
 }
@@ -0,0 +1,22 @@
+/**
+ * Documentation and access requirements attached to a route handler, e.g.
+ * by `@ApiOperation` and `@RequireScopes`.
+ */
+export type RouteDocs = {
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	operationId?: string;
+	scopes?: string[];
+	roles?: string[];
+};
+
+const docs = new WeakMap<object, RouteDocs>();
+
+export function setRouteDocs(handler: object, routeDocs: RouteDocs) {
+	docs.set(handler, routeDocs);
+}
+
+export function getRouteDocs(handler: unknown): RouteDocs | undefined {
+	return typeof handler === "function" ? docs.get(handler) : undefined;
+}
@@ -1,15 +1,65 @@
-import type { RouteInfo } from "./index";
+import type { ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { AccessRequirement } from "./auth";
+import type { RouteInfo, SchemaAnnotation } from "./index";
+import { findPathItem } from "./openapiPaths";
+import { type ParamLocation, hasRequestBody } from "./paramLocations";
+import { parsePathTokens } from "./pathParams";
+import { RefResolver, withDefs } from "./refResolver";
+import { getRouteDocs } from "./routeMetadata";
 
 type OpenAPI = Record<string, unknown>;
+type JsonSchema = Record<string, unknown>;
+
+export type InputSchemaStyle = "flat" | "sections";
+
+type ParamSpec = {
+	name: string;
+	in: Exclude<ParamLocation, "body">;
+	required: boolean;
+	schema: JsonSchema;
+};
+
+const SECTION_BY_LOCATION = {
+	path: "params",
+	query: "query",
+	header: "headers",
+} as const;
+
+const PERMISSIVE: JsonSchema = { type: "object", additionalProperties: true };
+
+export type ToolDefinition = ReturnType<SchemaResolver["toTool"]>;
+
+/**
+ * Scopes an OpenAPI `security` list demands whichever alternative is used:
+ * those common to all of them, and none if any alternative is anonymous.
+ */
+function securityScopes(security: unknown): string[] | undefined {
+	if (!Array.isArray(security) || !security.length) return undefined;
+	const alternatives = security.map((requirement) =>
+		Object.values((requirement ?? {}) as Record<string, unknown>).flatMap(
+			(scopes) => (Array.isArray(scopes) ? scopes.map(String) : []),
+		),
+	);
+	return alternatives.reduce((common, scopes) =>
+		common.filter((s) => scopes.includes(s)),
+	);
+}
 
 export class SchemaResolver {
 	constructor(
 		private options: {
 			openapi?: Record<string, unknown>;
-			schemaAnnotations?: Record<string, unknown>;
+			schemaAnnotations?: Record<string, SchemaAnnotation>;
+			inputSchemaStyle?: InputSchemaStyle;
 		} = {},
 	) {}
 
+	/** Swap in a (re)loaded OpenAPI document. */
+	setOpenApi(doc: Record<string, unknown> | undefined) {
+		this.options = { ...this.options, openapi: doc };
+	}
+
 	toolName(r: RouteInfo) {
 		return `${r.method} ${r.path}`;
 	}
@@ -19,59 +69,316 @@ export class SchemaResolver {
 
 	toTool(r: RouteInfo) {
 		const key = this.toolName(r);
-		const ann = this.options?.schemaAnnotations?.[key] ?? {};
+		const ann = this.annotation(r);
 		const open = this.findOpenApiSchemas(r);
+		const docs = getRouteDocs(r.handler);
+		const summary = docs?.summary ?? open.summary;
+		const scopes = ann.scopes ?? docs?.scopes ?? open.scopes ?? [];
+		const roles = ann.roles ?? docs?.roles ?? [];
+		const access: AccessRequirement | undefined =
+			scopes.length || roles.length
+				? {
+						...(scopes.length && { scopes }),
+						...(roles.length && { roles }),
+					}
+				: undefined;
 
 		return {
 			name: this.safeName(r),
 			title: key,
 			description:
-				ann.description ?? open.description ?? `Invoke ${r.method} ${r.path}`,
-			inputSchema: ann.input
-				? this.zodToJsonSchema(ann.input)
-				: (open.inputSchema ?? { type: "object", additionalProperties: true }),
+				ann.description ??
+				docs?.description ??
+				docs?.summary ??
+				open.description ??
+				`Invoke ${r.method} ${r.path}`,
+			// From `@ApiOperation` or the OpenAPI operation
+			...(summary && { summary }),
+			inputSchema: this.buildInputSchema(r),
 			outputSchema: ann.output
 				? this.zodToJsonSchema(ann.output)
-				: (open.outputSchema ?? { type: "object", additionalProperties: true }),
+				: (open.outputSchema ?? PERMISSIVE),
 			examples: ann.examples ?? open.examples ?? [],
 			route: { method: r.method, path: r.path },
+			// From annotations, `@RequireScopes` / `@RequireRoles` or OpenAPI `security`
+			...(access && { access }),
 		};
 	}
 
+	/**
+	 * How `/invoke` args are laid out for this route: either sections
+	 * (`{ params, query, headers, body }`) or flat args with a location map.
+	 */
+	argLayout(r: RouteInfo): {
+		sections: boolean;
+		locations: Record<string, ParamLocation>;
+	} {
+		if (this.options.inputSchemaStyle === "sections") {
+			return { sections: true, locations: {} };
+		}
+		const locations: Record<string, ParamLocation> = {};
+		for (const p of this.collectParams(r)) locations[p.name] = p.in;
+		const body = this.bodySchema(r);
+		const props = body?.schema.properties as JsonSchema | undefined;
+		for (const name of Object.keys(props ?? {})) {
+			locations[name] ??= "body";
+		}
+		return { sections: false, locations };
+	}
+
 	mergeEnrichment(_: RouteInfo, __: Partial<Record<string, unknown>>) {
 		// No-op for now; reserved for future enrichers (e.g., manual docs).
 	}
 
+	private annotation(r: RouteInfo): SchemaAnnotation {
+		return this.options.schemaAnnotations?.[this.toolName(r)] ?? {};
+	}
+
+	private buildInputSchema(r: RouteInfo): JsonSchema {
+		const params = this.collectParams(r);
+		const body = this.bodySchema(r);
+
+		if (this.options.inputSchemaStyle === "sections") {
+			return this.sectionedSchema(r, params, body);
+		}
+
+		// Nothing but a body: keep the body schema exactly as supplied
+		if (!params.length) return body?.schema ?? PERMISSIVE;
+
+		const properties: Record<string, JsonSchema> = {};
+		const required: string[] = [];
+		for (const p of params) {
+			properties[p.name] = { ...p.schema, "x-in": p.in };
+			if (p.required) required.push(p.name);
+		}
+		const bodyProps = (body?.schema.properties ?? {}) as Record<
+			string,
+			JsonSchema
+		>;
+		for (const [name, schema] of Object.entries(bodyProps)) {
+			properties[name] ??= { ...schema, "x-in": "body" };
+		}
+		if (body?.required) {
+			for (const name of (body.schema.required as string[]) ?? []) {
+				if (!required.includes(name)) required.push(name);
+			}
+		}
+
+		return this.hoistDefs(r, body, {
+			type: "object",
+			properties,
+			...(required.length && { required }),
+			additionalProperties: !body || body.schema.additionalProperties !== false,
+		});
+	}
+
+	private sectionedSchema(
+		r: RouteInfo,
+		params: ParamSpec[],
+		body?: { schema: JsonSchema; required: boolean },
+	): JsonSchema {
+		const properties: Record<string, JsonSchema> = {};
+		const required: string[] = [];
+
+		for (const location of ["path", "query", "header"] as const) {
+			const section = SECTION_BY_LOCATION[location];
+			const own = params.filter((p) => p.in === location);
+			if (!own.length && !(location === "query" && !hasRequestBody(r.method))) {
+				continue;
+			}
+			const ownRequired = own.filter((p) => p.required).map((p) => p.name);
+			properties[section] = {
+				type: "object",
+				properties: Object.fromEntries(own.map((p) => [p.name, p.schema])),
+				...(ownRequired.length && { required: ownRequired }),
+				additionalProperties: location !== "path",
+			};
+			if (ownRequired.length) required.push(section);
+		}
+
+		if (body) {
+			const { $defs: _, ...schema } = body.schema;
+			properties.body = schema;
+			if (body.required) required.push("body");
+		}
+
+		return this.hoistDefs(r, body, {
+			type: "object",
+			properties,
+			...(required.length && { required }),
+			additionalProperties: false,
+		});
+	}
+
+	/** Bundled `$defs` from OpenAPI refs must live on the root input schema. */
+	private hoistDefs(
+		r: RouteInfo,
+		body: { schema: JsonSchema } | undefined,
+		schema: JsonSchema,
+	) {
+		return withDefs(schema, {
+			...this.findOpenApiSchemas(r).inputDefs,
+			...(body?.schema.$defs as JsonSchema | undefined),
+		}) as JsonSchema;
+	}
+
+	/**
+	 * Path tokens from the Express route, refined by OpenAPI `parameters` and
+	 * `params` / `query` / `headers` annotations (later sources win).
+	 */
+	private collectParams(r: RouteInfo): ParamSpec[] {
+		const specs = new Map<string, ParamSpec>();
+		const put = (spec: ParamSpec) => {
+			const prev = specs.get(`${spec.in}:${spec.name}`);
+			specs.set(`${spec.in}:${spec.name}`, {
+				...spec,
+				schema: { ...prev?.schema, ...spec.schema },
+			});
+		};
+
+		for (const token of parsePathTokens(r.path)) {
+			put({
+				name: token.name,
+				in: "path",
+				required: !token.optional,
+				schema: {
+					type: "string",
+					...(token.pattern && { pattern: `^(?:${token.pattern})$` }),
+					...(token.repeat && {
+						description: "One or more path segments separated by '/'",
+					}),
+				},
+			});
+		}
+
+		for (const p of this.findOpenApiSchemas(r).parameters ?? []) {
+			put(p);
+		}
+
+		// Body-less methods read their `input` annotation from the query string
+		const ann = this.annotation(r);
+		const annotated = [
+			["path", ann.params],
+			["query", hasRequestBody(r.method) ? undefined : ann.input],
+			["query", ann.query],
+			["header", ann.headers],
+		] as const;
+		for (const [location, source] of annotated) {
+			if (!source) continue;
+			const schema = this.zodToJsonSchema(source) as JsonSchema;
+			const props = (schema.properties ?? {}) as Record<string, JsonSchema>;
+			const req = (schema.required as string[] | undefined) ?? [];
+			for (const [name, prop] of Object.entries(props)) {
+				put({
+					name,
+					in: location,
+					required: location === "path" || req.includes(name),
+					schema: prop,
+				});
+			}
+		}
+
+		return [...specs.values()];
+	}
+
+	private bodySchema(r: RouteInfo) {
+		if (!hasRequestBody(r.method)) return undefined;
+		const ann = this.annotation(r);
+		const input = ann.input ?? ann.body;
+		if (input) {
+			return {
+				schema: this.zodToJsonSchema(input) as JsonSchema,
+				required: true,
+			};
+		}
+		const open = this.findOpenApiSchemas(r);
+		return {
+			schema: (open.inputSchema as JsonSchema | undefined) ?? PERMISSIVE,
+			required: open.bodyRequired ?? false,
+		};
+	}
+
 	private findOpenApiSchemas(r: RouteInfo) {
 		const result: {
 			inputSchema?: unknown;
+			bodyRequired?: boolean;
 			outputSchema?: unknown;
+			inputDefs?: JsonSchema;
+			parameters?: ParamSpec[];
 			description?: string;
+			summary?: string;
+			scopes?: string[];
 			examples?: unknown[];
 		} = {};
-		const doc = this.options.openapi as Record<string, unknown>;
+		const doc = this.options.openapi as OpenAPI & {
+			paths?: Record<string, Record<string, any>>;
+		};
 		if (!doc?.paths) return result;
-		const pathItem = doc.paths[r.path];
-		if (!pathItem) return result;
+		const match = findPathItem(doc, r.path);
+		if (!match) return result;
+		const { pathItem, renames } = match;
 		const op = pathItem[r.method.toLowerCase()];
 		if (!op) return result;
 
 		result.description = op.summary || op.description;
+		result.summary = op.summary;
+		result.scopes = securityScopes(op.security ?? doc.security);
+
+		// Params and body share one resolver so their bundled defs line up
+		const inputRefs = new RefResolver(doc);
+		const outputRefs = new RefResolver(doc);
+
+		// parameters: operation-level entries override path-level ones
+		const rawParams = [
+			...(pathItem.parameters ?? []),
+			...(op.parameters ?? []),
+		].map((p) => inputRefs.object(p) ?? {}) as {
+			name?: string;
+			in?: string;
+			required?: boolean;
+			description?: string;
+			schema?: any;
+		}[];
+		result.parameters = rawParams
+			.filter(
+				(p) =>
+					p.name && (p.in === "path" || p.in === "query" || p.in === "header"),
+			)
+			.map((p) => ({
+				name:
+					(p.in === "path" && renames[p.name as string]) || (p.name as string),
+				in: p.in as ParamSpec["in"],
+				required: p.in === "path" || !!p.required,
+				schema: {
+					...(inputRefs.schema(p.schema) ?? { type: "string" }),
+					...(p.description && { description: p.description }),
+				},
+			}));
 
 		// requestBody
-		const rb = op.requestBody?.content;
+		const requestBody = inputRefs.object<any>(op.requestBody);
+		const rb = requestBody?.content;
 		if (rb) {
 			const json = rb["application/json"]?.schema;
-			if (json) result.inputSchema = json;
+			if (json) {
+				result.inputSchema = withDefs(inputRefs.schema(json), inputRefs.defs);
+			}
+			result.bodyRequired = !!requestBody.required;
 		}
+		result.inputDefs = inputRefs.defs;
 
 		// responses: prefer 200/201 json
 		const res = op.responses;
-		const preferred = res?.["200"] ?? res?.["201"];
+		const preferred = outputRefs.object<any>(res?.["200"] ?? res?.["201"]);
 		const content = preferred?.content;
 		if (content) {
 			const json = content["application/json"]?.schema;
-			if (json) result.outputSchema = json;
+			if (json) {
+				result.outputSchema = withDefs(
+					outputRefs.schema(json),
+					outputRefs.defs,
+				);
+			}
 		}
 
 		// examples (best effort)
@@ -80,6 +387,7 @@ export class SchemaResolver {
 		const toArr = (ex: unknown) =>
 			ex && typeof ex === "object" && ex !== null
 				? Object.values(ex)
+						.map((ref: unknown) => inputRefs.object(ref))
 						.map((e: unknown) =>
 							e && typeof e === "object" && "value" in e
 								? (e as { value: unknown }).value
@@ -94,10 +402,8 @@ export class SchemaResolver {
 
 	private zodToJsonSchema(z: unknown) {
 		try {
-			if (z && "parse" in z) {
-				// eslint-disable-next-line @typescript-eslint/no-var-requires
-				const { zodToJsonSchema } = require("zod-to-json-schema");
-				return zodToJsonSchema(z);
+			if (z && typeof z === "object" && "parse" in z) {
+				return zodToJsonSchema(z as ZodTypeAny);
 			}
 			return z;
 		} catch {
@@ -0,0 +1,270 @@
+import type { Principal } from "./auth";
+import {
+	DEFAULT_FORWARD_HEADERS,
+	type HeaderBag,
+	pickHeaders,
+} from "./headers";
+import { type ParamIssue, ParamValidationError } from "./pathParams";
+
+/** A tool as listed by a source; the gateway's `/tools` JSON has this shape. */
+export type SourceTool = {
+	name: string;
+	title?: string;
+	description?: string;
+	inputSchema?: unknown;
+	outputSchema?: unknown;
+};
+
+/** A resource as listed by a source. */
+export type SourceResource = {
+	uri: string;
+	name: string;
+	title?: string;
+	description?: string;
+	mimeType?: string;
+};
+
+/** A parameterized resource, e.g. `express://app/items/{id}`. */
+export type SourceResourceTemplate = Omit<SourceResource, "uri"> & {
+	uriTemplate: string;
+};
+
+/** A prompt as listed by a source. */
+export type SourcePrompt = {
+	name: string;
+	title?: string;
+	description?: string;
+	arguments?: { name: string; description?: string; required?: boolean }[];
+};
+
+/** A rendered prompt: the messages to start a conversation with. */
+export type PromptMessages = {
+	description?: string;
+	messages: {
+		role: "user" | "assistant";
+		content: { type: "text"; text: string };
+	}[];
+};
+
+/** Who is calling: the MCP client's HTTP request, or the session it opened. */
+export type CallContext = {
+	/** Caller headers; sources forward an allow-listed subset to routes */
+	headers?: HeaderBag;
+	/** Who the gateway authenticated; routes see it as `req.user` */
+	user?: Principal;
+};
+
+/** What the route behind a tool or resource answered. */
+export type ToolCallResult = {
+	status: number;
+	/** Parsed JSON, text, or a `Buffer` for binary content types */
+	body: unknown;
+	contentType?: string;
+	/** Path and query the route was called with */
+	url?: string;
+	/** The body was streamed and collected into a string */
+	streaming?: boolean;
+	/** URI that reads this answer again, when the route is also a resource */
+	resourceUri?: string;
+};
+
+/**
+ * Where the protocol core gets tools (and optionally resources) from: an
+ * in-process `ExpressMCP`, or a gateway reached over HTTP
+ * ({@link RemoteToolSource}).
+ */
+export interface ToolSource {
+	/**
+	 * Tools the caller may use. Resources and prompts are listed for the
+	 * caller the same way.
+	 */
+	listTools(context?: CallContext): SourceTool[] | Promise<SourceTool[]>;
+	/**
+	 * Throws {@link ToolNotFoundError} for unknown tools,
+	 * {@link AccessDeniedError} for tools the caller may not use and
+	 * `ParamValidationError` for unusable path params.
+	 */
+	callTool(
+		name: string,
+		args: unknown,
+		context?: CallContext,
+	): Promise<ToolCallResult>;
+	/** Status policy of the source; see {@link defaultIsErrorStatus}. */
+	isErrorStatus?(status: number): boolean;
+	/** Subscribe to tool list rebuilds; returns an unsubscribe function. */
+	onToolsChanged?(listener: () => void): () => void;
+	listResources?(
+		context?: CallContext,
+	): SourceResource[] | Promise<SourceResource[]>;
+	listResourceTemplates?(
+		context?: CallContext,
+	): SourceResourceTemplate[] | Promise<SourceResourceTemplate[]>;
+	/** Throws {@link ResourceNotFoundError} for URIs no resource matches. */
+	readResource?(uri: string, context?: CallContext): Promise<ToolCallResult>;
+	/**
+	 * Subscribe to resource changes; the listener gets the URIs that
+	 * changed. Returns an unsubscribe function.
+	 */
+	onResourcesUpdated?(listener: (uris: string[]) => void): () => void;
+	listPrompts?(context?: CallContext): SourcePrompt[] | Promise<SourcePrompt[]>;
+	/**
+	 * Throws {@link PromptNotFoundError} for unknown prompts and ones the
+	 * caller may not list, and `ParamValidationError` for missing arguments.
+	 */
+	getPrompt?(
+		name: string,
+		args?: Record<string, string>,
+		context?: CallContext,
+	): PromptMessages | Promise<PromptMessages>;
+}
+
+/** Default status policy: anything outside 2xx is a failed tool call. */
+export function defaultIsErrorStatus(status: number) {
+	return status < 200 || status >= 300;
+}
+
+export class ToolNotFoundError extends Error {
+	readonly code = "TOOL_NOT_FOUND";
+
+	constructor(public readonly toolName: string) {
+		super(`Tool '${toolName}' not found`);
+		this.name = "ToolNotFoundError";
+	}
+}
+
+export class ResourceNotFoundError extends Error {
+	readonly code = "RESOURCE_NOT_FOUND";
+
+	constructor(public readonly uri: string) {
+		super(`Resource '${uri}' not found`);
+		this.name = "ResourceNotFoundError";
+	}
+}
+
+export class AccessDeniedError extends Error {
+	readonly code = "ACCESS_DENIED";
+
+	constructor(
+		/** `Tool 'POST_/orders'`, or a resource */
+		public readonly subject: string,
+		public readonly missing: { scopes: string[]; roles: string[] },
+	) {
+		const needs = [
+			...(missing.scopes.length ? [`scope ${missing.scopes.join(", ")}`] : []),
+			...(missing.roles.length
+				? [`one of the roles ${missing.roles.join(", ")}`]
+				: []),
+		];
+		super(`${subject} requires ${needs.join(" and ")}`);
+		this.name = "AccessDeniedError";
+	}
+}
+
+export class PromptNotFoundError extends Error {
+	readonly code = "PROMPT_NOT_FOUND";
+
+	constructor(public readonly promptName: string) {
+		super(`Prompt '${promptName}' not found`);
+		this.name = "PromptNotFoundError";
+	}
+}
+
+type InvokeResponse = {
+	ok?: boolean;
+	result?: unknown;
+	status?: number;
+	streaming?: boolean;
+	encoding?: "base64";
+	contentType?: string;
+	url?: string;
+	error?: string;
+	issues?: ParamIssue[];
+	missing?: { scopes: string[]; roles: string[] };
+};
+
+export type RemoteToolSourceOptions = {
+	/** Sent with every request, e.g. `{ authorization: "Bearer …" }` */
+	headers?: Record<string, string>;
+	/** Caller headers passed on to the gateway (default: credentials and tenant headers) */
+	forwardHeaders?: string[];
+};
+
+/**
+ * Tools served by a running gateway's JSON endpoints, e.g.
+ * `new RemoteToolSource("http://localhost:3000/mcp")`. The gateway forwards
+ * its allow-listed headers to the routes.
+ */
+export class RemoteToolSource implements ToolSource {
+	private baseUrl: string;
+
+	constructor(
+		baseUrl: string | URL,
+		private options: RemoteToolSourceOptions = {},
+	) {
+		this.baseUrl = String(baseUrl).replace(/\/+$/, "");
+	}
+
+	async listTools(context: CallContext = {}): Promise<SourceTool[]> {
+		const response = await fetch(`${this.baseUrl}/tools`, {
+			headers: { ...this.options.headers, ...this.forwarded(context) },
+		});
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status} listing tools`);
+		}
+		const data = (await response.json()) as { tools?: SourceTool[] };
+		return data.tools ?? [];
+	}
+
+	async callTool(
+		name: string,
+		args: unknown,
+		context: CallContext = {},
+	): Promise<ToolCallResult> {
+		const response = await fetch(`${this.baseUrl}/invoke`, {
+			method: "POST",
+			headers: {
+				...this.options.headers,
+				...this.forwarded(context),
+				"content-type": "application/json",
+			},
+			body: JSON.stringify({ toolName: name, args: args ?? {} }),
+		});
+		const data = (await response.json().catch(() => undefined)) as
+			| InvokeResponse
+			| undefined;
+
+		// Map the gateway's error responses back to the errors it raised
+		if (response.status === 404) throw new ToolNotFoundError(name);
+		if (response.status === 403 && data?.missing) {
+			throw new AccessDeniedError(`Tool '${name}'`, data.missing);
+		}
+		if (response.status === 400 && data?.issues) {
+			throw new ParamValidationError(
+				data.error ?? "Invalid params",
+				data.issues,
+			);
+		}
+		// A route's own error status still arrives as a 200 envelope
+		if (!response.ok || typeof data?.status !== "number") {
+			throw new Error(data?.error ?? `HTTP ${response.status}`);
+		}
+		return {
+			status: data.status,
+			body:
+				data.encoding === "base64" && typeof data.result === "string"
+					? Buffer.from(data.result, "base64")
+					: data.result,
+			...(data.contentType && { contentType: data.contentType }),
+			...(data.url && { url: data.url }),
+			...(data.streaming && { streaming: true }),
+		};
+	}
+
+	/** The caller headers passed on to the gateway. */
+	private forwarded(context: CallContext) {
+		return pickHeaders(
+			context.headers,
+			this.options.forwardHeaders ?? DEFAULT_FORWARD_HEADERS,
+		);
+	}
+}
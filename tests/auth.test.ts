@@ -0,0 +1,208 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import express, {
+	type NextFunction,
+	type Request,
+	type RequestHandler,
+	type Response,
+} from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import {
+	ExpressMCP,
+	type ExpressMCPOptions,
+	apiKeyAuth,
+	bearerAuth,
+} from "../src";
+import { authGuard } from "../src/auth";
+import { mountMcp } from "./helpers";
+
+const createApp = async (options: ExpressMCPOptions = {}) => {
+	const app = express();
+	app.use(express.json());
+	app.get("/me", (req, res) =>
+		res.json({ user: (req as Request & { user?: unknown }).user ?? null }),
+	);
+	return mountMcp(app, options);
+};
+
+const tokens = bearerAuth((token) =>
+	token === "t-alice" ? { id: "alice", scopes: ["read"] } : undefined,
+);
+
+describe("Gateway authentication", () => {
+	it("leaves the gateway open without auth options", async () => {
+		const { app, mcp } = await createApp({ auth: { enabled: false } });
+		const res = await request(app).get("/mcp/tools");
+		expect(res.status).toBe(200);
+		await mcp.close();
+	});
+
+	it("rejects unauthenticated calls on every endpoint", async () => {
+		const { app, mcp } = await createApp({
+			auth: { authenticate: tokens, challenge: 'Bearer realm="mcp"' },
+		});
+		const tools = await request(app).get("/mcp/tools");
+		expect(tools.status).toBe(401);
+		expect(tools.headers["www-authenticate"]).toBe('Bearer realm="mcp"');
+		expect(tools.body).toEqual({ error: "Unauthorized" });
+
+		const invoke = await request(app)
+			.post("/mcp/invoke")
+			.set("Authorization", "Bearer wrong")
+			.send({ toolName: "GET_/me", args: {} });
+		expect(invoke.status).toBe(401);
+
+		const initialize = await request(app)
+			.post("/mcp")
+			.set("Accept", "application/json, text/event-stream")
+			.send({
+				jsonrpc: "2.0",
+				id: 1,
+				method: "initialize",
+				params: {
+					protocolVersion: "2025-03-26",
+					capabilities: {},
+					clientInfo: { name: "test", version: "1" },
+				},
+			});
+		expect(initialize.status).toBe(401);
+
+		// The app's own routes are not guarded by the gateway
+		expect((await request(app).get("/me")).body).toEqual({ user: null });
+		await mcp.close();
+	});
+
+	it("passes the principal to routes called through /invoke", async () => {
+		const { app, mcp } = await createApp({ auth: { authenticate: tokens } });
+		const res = await request(app)
+			.post("/mcp/invoke")
+			.set("Authorization", "Bearer t-alice")
+			.send({ toolName: "GET_/me", args: {} });
+		expect(res.body).toMatchObject({
+			ok: true,
+			result: { user: { id: "alice", scopes: ["read"] } },
+		});
+		await mcp.close();
+	});
+
+	it("passes the principal to routes called over MCP", async () => {
+		const { app, mcp } = await createApp({ auth: { authenticate: tokens } });
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const client = new Client({ name: "test", version: "1.0.0" });
+		try {
+			await client.connect(
+				new StreamableHTTPClientTransport(
+					new URL(`http://127.0.0.1:${port}/mcp`),
+					{ requestInit: { headers: { Authorization: "Bearer t-alice" } } },
+				),
+			);
+			const got = await client.callTool({ name: "GET_/me" });
+			expect(got.structuredContent).toEqual({
+				user: { id: "alice", scopes: ["read"] },
+			});
+		} finally {
+			await client.close();
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("checks API keys, with async verification", async () => {
+		const { app, mcp } = await createApp({
+			auth: {
+				authenticate: apiKeyAuth(async (key) =>
+					key === "k-1" ? { id: "ci" } : null,
+				),
+			},
+		});
+		expect((await request(app).get("/mcp/tools")).status).toBe(401);
+		const ok = await request(app).get("/mcp/tools").set("X-API-Key", "k-1");
+		expect(ok.status).toBe(200);
+		await mcp.close();
+	});
+
+	it("answers 500 when the authenticator throws", async () => {
+		const { app, mcp } = await createApp({
+			auth: {
+				authenticate: () => {
+					throw new Error("key store down");
+				},
+			},
+		});
+		const res = await request(app).get("/mcp/tools");
+		expect(res.status).toBe(500);
+		expect(res.body).toEqual({ error: "Authentication failed" });
+		await mcp.close();
+	});
+
+	it("reuses existing Express auth middleware", async () => {
+		const session = (req: Request, res: Response, next: NextFunction) => {
+			if (req.headers.cookie !== "sid=abc") {
+				return res.status(403).json({ error: "Forbidden" });
+			}
+			Object.assign(req, { user: { id: "bob", roles: ["admin"] } });
+			next();
+		};
+		const { app, mcp } = await createApp({ auth: { middleware: session } });
+		expect((await request(app).get("/mcp/tools")).status).toBe(403);
+		const res = await request(app)
+			.post("/mcp/invoke")
+			.set("Cookie", "sid=abc")
+			.send({ toolName: "GET_/me", args: {} });
+		expect(res.body.result).toEqual({ user: { id: "bob", roles: ["admin"] } });
+		await mcp.close();
+	});
+
+	it("reads the principal from the req.auth that middleware sets", async () => {
+		const claims = { sub: "carol", scope: "read write", roles: ["ops"] };
+		const jwt = (req: Request, _res: Response, next: NextFunction) => {
+			Object.assign(req, { auth: claims });
+			next();
+		};
+		const { app, mcp } = await createApp({ auth: { middleware: jwt } });
+		const res = await request(app)
+			.post("/mcp/invoke")
+			.send({ toolName: "GET_/me", args: {} });
+		expect(res.body.result).toEqual({
+			user: { id: "carol", scopes: ["read", "write"], roles: ["ops"], claims },
+		});
+		await mcp.close();
+
+		// The middleware's own req.auth is left as it is
+		const guarded = express();
+		guarded.get(
+			"/",
+			authGuard({ middleware: jwt }) as RequestHandler,
+			(req, res) => res.json((req as Request & { auth?: unknown }).auth),
+		);
+		expect((await request(guarded).get("/")).body).toEqual(claims);
+	});
+
+	it("records no principal when middleware sets none", async () => {
+		const open = (_req: Request, _res: Response, next: NextFunction) => next();
+		const { app, mcp } = await createApp({ auth: { middleware: open } });
+		const res = await request(app)
+			.post("/mcp/invoke")
+			.send({ toolName: "GET_/me", args: {} });
+		expect(res.body.result).toEqual({ user: null });
+		await mcp.close();
+
+		const guarded = express();
+		guarded.get(
+			"/",
+			authGuard({ middleware: open }) as RequestHandler,
+			(req, res) =>
+				res.json({ auth: (req as Request & { auth?: unknown }).auth ?? null }),
+		);
+		expect((await request(guarded).get("/")).body).toEqual({ auth: null });
+	});
+
+	it("requires an authenticator when enabled", () => {
+		expect(
+			() => new ExpressMCP(express(), { auth: { enabled: true } }),
+		).toThrow(/needs auth.authenticate, auth.middleware or auth.oauth/);
+	});
+});
@@ -0,0 +1,5 @@
+// `express5` is a dev-only alias of express@5 used for the version matrix
+declare module "express5" {
+	import express from "express";
+	export default express;
+}
@@ -0,0 +1,8 @@
+import express4 from "express";
+import express5 from "express5";
+
+/** Express majors every integration suite runs against. */
+export const expressVersions = [
+	{ version: 4, express: express4 },
+	{ version: 5, express: express5 },
+];
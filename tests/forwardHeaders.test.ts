@@ -0,0 +1,173 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import express, {
+	type NextFunction,
+	type Request,
+	type Response,
+} from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import type { ExpressMCPOptions } from "../src";
+import { parseHeader, pickHeaders } from "../src/headers";
+import { MCPServer } from "../src/mcp-server";
+import { mountMcp } from "./helpers";
+
+const authenticate = (req: Request, res: Response, next: NextFunction) => {
+	if (req.headers.authorization !== "Bearer user-token-123") {
+		return res.status(401).json({ error: "No authorization header" });
+	}
+	next();
+};
+
+const createApp = async (options: ExpressMCPOptions = {}) => {
+	const app = express();
+	app.use(express.json());
+	app.get("/profile", authenticate, (req, res) =>
+		res.json({ user: "alice", headers: req.headers }),
+	);
+	return mountMcp(app, options);
+};
+
+const forwarded = (body: unknown) =>
+	(body as { headers: Record<string, string> }).headers;
+
+describe("Header forwarding", () => {
+	it("passes allow-listed headers of the MCP request to routes", async () => {
+		const { app, mcp } = await createApp();
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const client = new Client({ name: "test", version: "1.0.0" });
+		try {
+			await client.connect(
+				new StreamableHTTPClientTransport(
+					new URL(`http://127.0.0.1:${port}/mcp`),
+					{
+						requestInit: {
+							headers: {
+								Authorization: "Bearer user-token-123",
+								"X-Tenant-Id": "acme",
+								"X-Other": "nope",
+							},
+						},
+					},
+				),
+			);
+			const got = await client.callTool({ name: "GET_/profile" });
+			expect(got.isError).toBe(false);
+			const headers = forwarded(got.structuredContent);
+			expect(headers).toMatchObject({
+				authorization: "Bearer user-token-123",
+				"x-tenant-id": "acme",
+			});
+			expect(headers["x-other"]).toBeUndefined();
+		} finally {
+			await client.close();
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("never takes credentials from the request that opened the session", async () => {
+		const { app, mcp } = await createApp();
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const client = new Client({ name: "test", version: "1.0.0" });
+		// `initialize` sends the tenant and a token; later requests `later`
+		let later: Record<string, string> = {};
+		const sessionFetch: typeof fetch = (url, init) => {
+			const headers = new Headers(init?.headers);
+			const sent = String(init?.body).includes('"initialize"')
+				? { Authorization: "Bearer user-token-123", "X-Tenant-Id": "acme" }
+				: later;
+			for (const [name, value] of Object.entries(sent)) {
+				headers.set(name, value);
+			}
+			return fetch(url, { ...init, headers });
+		};
+		try {
+			await client.connect(
+				new StreamableHTTPClientTransport(
+					new URL(`http://127.0.0.1:${port}/mcp`),
+					{ fetch: sessionFetch },
+				),
+			);
+			const denied = await client.callTool({ name: "GET_/profile" });
+			expect(denied._meta).toEqual({ "expressjs-mcp/status": 401 });
+
+			later = { Authorization: "Bearer user-token-123" };
+			const got = await client.callTool({ name: "GET_/profile" });
+			expect(got.isError).toBe(false);
+			// Other headers of the session still fill in
+			expect(forwarded(got.structuredContent)["x-tenant-id"]).toBe("acme");
+		} finally {
+			await client.close();
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("forwards headers from /invoke, per the forwardHeaders allow-list", async () => {
+		const { app, mcp } = await createApp({
+			forwardHeaders: ["Authorization", "X-Request-Id"],
+		});
+		const denied = await request(app)
+			.post("/mcp/invoke")
+			.send({ toolName: "GET_/profile", args: {} });
+		expect(denied.body).toMatchObject({ ok: false, status: 401 });
+
+		const allowed = await request(app)
+			.post("/mcp/invoke")
+			.set("Authorization", "Bearer user-token-123")
+			.set("X-Request-Id", "r-1")
+			.set("X-Tenant-Id", "acme")
+			.send({ toolName: "GET_/profile", args: {} });
+		expect(allowed.body).toMatchObject({ ok: true, status: 200 });
+		expect(forwarded(allowed.body.result)).toMatchObject({
+			authorization: "Bearer user-token-123",
+			"x-request-id": "r-1",
+		});
+		expect(forwarded(allowed.body.result)["x-tenant-id"]).toBeUndefined();
+		await mcp.close();
+	});
+
+	it("sends configured headers through a remote gateway", async () => {
+		const { app, mcp } = await createApp();
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		try {
+			const call = (headers?: Record<string, string>) =>
+				new MCPServer({
+					url: `http://127.0.0.1:${port}`,
+					headers,
+				}).handleRequest({
+					method: "tools/call",
+					params: { name: "GET_/profile" },
+				});
+			expect(await call()).toMatchObject({ isError: true });
+			expect(
+				await call({ authorization: "Bearer user-token-123" }),
+			).toMatchObject({ isError: false });
+		} finally {
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("picks and parses headers", () => {
+		expect(
+			pickHeaders({
+				Authorization: "Bearer x",
+				cookie: ["a=1", "b=2"],
+				"x-tenant-region": "eu",
+				host: "example.com",
+			}),
+		).toEqual({
+			authorization: "Bearer x",
+			cookie: "a=1; b=2",
+			"x-tenant-region": "eu",
+		});
+		expect(parseHeader("X-Api-Key: a:b ")).toEqual(["x-api-key", "a:b"]);
+		expect(() => parseHeader("no colon")).toThrow(/expected 'Name: value'/);
+	});
+});
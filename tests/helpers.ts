@@ -0,0 +1,17 @@
+import { ExpressMCP, type ExpressMCPOptions } from "../src";
+
+type App = ConstructorParameters<typeof ExpressMCP>[0];
+
+/** Logger for suites that do not check log output. */
+export const silent = { info: () => undefined, error: () => undefined };
+
+/** An `ExpressMCP` for `app`, initialized and mounted on `/mcp`. */
+export async function mountMcp<T extends App>(
+	app: T,
+	options: ExpressMCPOptions = {},
+) {
+	const mcp = new ExpressMCP(app, { logging: silent, ...options });
+	await mcp.init();
+	mcp.mount("/mcp");
+	return { app, mcp };
+}
@@ -0,0 +1,233 @@
+import express from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { ExpressMCP } from "../src";
+import { InMemoryDispatcher } from "../src/inMemoryDispatcher";
+import { ParamValidationError, bindPathParams } from "../src/pathParams";
+import { expressVersions } from "./expressVersions";
+
+// Route syntax differs between path-to-regexp 0.1 (Express 4) and 8 (Express 5)
+const patterns = {
+	4: {
+		optional: "/posts/:slug?",
+		order: "/orders/:orderId(\\d+)",
+		wildcard: "/files/*",
+		wildcardParam: "0",
+		wildcardValue: "docs/read me.txt",
+	},
+	5: {
+		optional: "/posts{/:slug}",
+		order: "/orders/:orderId",
+		wildcard: "/files/*path",
+		wildcardParam: "path",
+		wildcardValue: ["docs", "read me.txt"],
+	},
+};
+
+describe.each(expressVersions)(
+	"InMemoryDispatcher path params (express $version)",
+	({ version, express }) => {
+		const p = patterns[version as 4 | 5];
+		const app = express();
+		app.use(express.json());
+		app.get("/items/:id", (req, res) => res.json({ params: req.params }));
+		app.get(p.optional, (req, res) => res.json({ params: req.params }));
+		app.get(p.order, (req, res) => res.json({ params: req.params }));
+		app.get(p.wildcard, (req, res) => res.json({ params: req.params }));
+		app.put("/items/:id", (req, res) =>
+			res.json({ params: req.params, body: req.body }),
+		);
+
+		const dispatcher = new InMemoryDispatcher(app);
+
+		it("substitutes and URL-encodes named params", async () => {
+			const rsp = await dispatcher.dispatch("GET", "/items/:id", {
+				id: "a b/c",
+			});
+			expect(rsp.status).toBe(200);
+			expect(rsp.body).toEqual({ params: { id: "a b/c" } });
+		});
+
+		it("drops missing optional params", async () => {
+			const withSlug = await dispatcher.dispatch("GET", p.optional, {
+				slug: "hello",
+			});
+			expect(withSlug.body).toEqual({ params: { slug: "hello" } });
+
+			const without = await dispatcher.dispatch("GET", p.optional, {});
+			expect(without.status).toBe(200);
+			expect(without.body).toEqual({ params: {} });
+		});
+
+		it("binds regex-constrained and wildcard segments", async () => {
+			const order = await dispatcher.dispatch("GET", p.order, {
+				orderId: 42,
+			});
+			expect(order.body).toEqual({ params: { orderId: "42" } });
+
+			const file = await dispatcher.dispatch("GET", p.wildcard, {
+				[p.wildcardParam]: "docs/read me.txt",
+			});
+			expect(file.body).toEqual({
+				params: { [p.wildcardParam]: p.wildcardValue },
+			});
+		});
+
+		it("keeps non-path args in the body", async () => {
+			const rsp = await dispatcher.dispatch("PUT", "/items/:id", {
+				id: "7",
+				name: "Widget",
+			});
+			expect(rsp.body).toEqual({
+				params: { id: "7" },
+				body: { name: "Widget" },
+			});
+		});
+
+		it("rejects missing and malformed params with a structured error", async () => {
+			await expect(
+				dispatcher.dispatch("GET", "/items/:id", {}),
+			).rejects.toBeInstanceOf(ParamValidationError);
+
+			expect(() =>
+				bindPathParams("/orders/:orderId(\\d+)/lines/:line", { orderId: "x" }),
+			).toThrowError(
+				expect.objectContaining({
+					issues: [
+						expect.objectContaining({ param: "orderId", reason: "pattern" }),
+						expect.objectContaining({ param: "line", reason: "missing" }),
+					],
+				}),
+			);
+		});
+
+		it("returns 400 from the gateway when a path param is missing", async () => {
+			const mcp = new ExpressMCP(app);
+			await mcp.init();
+			mcp.mount("/mcp");
+
+			const rsp = await request(app)
+				.post("/mcp/invoke")
+				.send({ toolName: "GET_/items/:id", args: {} })
+				.expect(400);
+
+			expect(rsp.body.ok).toBe(false);
+			expect(rsp.body.issues[0]).toMatchObject({
+				param: "id",
+				reason: "missing",
+			});
+
+			const ok = await request(app)
+				.post("/mcp/invoke")
+				.send({ toolName: "GET_/items/:id", args: { id: "1" } })
+				.expect(200);
+			expect(ok.body.result).toEqual({ params: { id: "1" } });
+		});
+	},
+);
+
+describe("InMemoryDispatcher parameter locations", () => {
+	const app = express();
+	app.use(express.json());
+	const echo: express.RequestHandler = (req, res) =>
+		res.json({
+			url: req.url,
+			query: req.query,
+			body: req.body,
+			contentType: req.headers["content-type"] ?? null,
+			tenant: req.headers["x-tenant"] ?? null,
+		});
+	app.get("/search", echo);
+	app.delete("/items/:id", echo);
+	app.post("/items", echo);
+
+	const dispatcher = new InMemoryDispatcher(app);
+
+	it("serializes GET args into a qs-style query string", async () => {
+		const rsp = await dispatcher.dispatch("GET", "/search", {
+			q: "red & blue",
+			tags: ["a", "b"],
+			filter: { min: 1, range: { to: 5 } },
+			items: [{ id: 1 }, { id: 2 }],
+		});
+		expect(rsp.body).toMatchObject({
+			query: {
+				q: "red & blue",
+				tags: ["a", "b"],
+				filter: { min: "1", range: { to: "5" } },
+				items: [{ id: "1" }, { id: "2" }],
+			},
+			contentType: null,
+		});
+	});
+
+	it("keeps single-element arrays as arrays", async () => {
+		const rsp = await dispatcher.dispatch("GET", "/search", {
+			tags: ["a"],
+			filter: { ids: [1] },
+		});
+		expect((rsp.body as { query: unknown }).query).toEqual({
+			tags: ["a"],
+			filter: { ids: ["1"] },
+		});
+	});
+
+	it("keeps arrays of objects as arrays up to qs's array limit", async () => {
+		const items = Array.from({ length: 20 }, (_, id) => ({ id }));
+		const rsp = await dispatcher.dispatch("GET", "/search", { items });
+		const { query } = rsp.body as { query: { items: unknown } };
+		expect(query.items).toEqual(items.map(({ id }) => ({ id: String(id) })));
+	});
+
+	it("rejects query arrays qs would not read back as arrays", async () => {
+		const items = Array.from({ length: 22 }, (_, id) => ({ id }));
+		const err = await dispatcher
+			.dispatch("GET", "/search", { items, filter: { tags: [] } })
+			.catch((e: unknown) => e);
+
+		expect(err).toBeInstanceOf(ParamValidationError);
+		expect((err as ParamValidationError).issues).toEqual([
+			{
+				param: "items",
+				reason: "encoding",
+				message:
+					"Query parameter 'items' has 22 items; a query string carries arrays of at most 20",
+			},
+			{
+				param: "filter[tags]",
+				reason: "encoding",
+				message:
+					"Query parameter 'filter[tags]' is an empty array, which a query string cannot carry; omit it instead",
+			},
+		]);
+	});
+
+	it("sends DELETE args as query params without a body", async () => {
+		const rsp = await dispatcher.dispatch("DELETE", "/items/:id", {
+			id: "9",
+			force: true,
+		});
+		expect(rsp.body).toMatchObject({
+			url: "/items/9?force=true",
+			query: { force: "true" },
+			body: {},
+			contentType: null,
+		});
+	});
+
+	it("honours explicit header, query and body locations", async () => {
+		const rsp = await dispatcher.dispatch(
+			"POST",
+			"/items",
+			{ name: "Widget", dryRun: true, "X-Tenant": "acme" },
+			{},
+			{ locations: { dryRun: "query", "X-Tenant": "header" } },
+		);
+		expect(rsp.body).toMatchObject({
+			query: { dryRun: "true" },
+			body: { name: "Widget" },
+			contentType: "application/json",
+			tenant: "acme",
+		});
+	});
+});
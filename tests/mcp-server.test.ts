@@ -0,0 +1,275 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ExpressMCP } from "../src";
+import { MCPServer } from "../src/mcp-server";
+
+describe("MCPServer local and remote modes", () => {
+	const app = express();
+	app.use(express.json());
+	app.get("/items/:id", (req, res) =>
+		res.json({ id: req.params.id, expand: req.query.expand ?? null }),
+	);
+	app.post("/items", (req, res) => res.status(201).json({ created: req.body }));
+	app.delete("/items/:id", (_req, res) =>
+		res.status(403).json({ error: "Missing scope items:delete" }),
+	);
+
+	const expressMcp = new ExpressMCP(app);
+	let server: Server;
+	let local: MCPServer;
+	let remote: MCPServer;
+
+	beforeAll(async () => {
+		await expressMcp.init();
+		expressMcp.mount("/mcp");
+		server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+
+		local = new MCPServer({ expressMcp });
+		remote = new MCPServer({ url: `http://127.0.0.1:${port}` });
+		await Promise.all([local.start(), remote.start()]);
+	});
+
+	afterAll(async () => {
+		await expressMcp.close();
+		server.close();
+	});
+
+	const call = (mcp: MCPServer, name: string, args: unknown) =>
+		mcp.handleRequest({
+			method: "tools/call",
+			params: { name, arguments: args },
+		});
+
+	it("routes calls to the matched endpoint", async () => {
+		const rsp = await call(local, "GET_/items/:id", { id: "7", expand: "all" });
+		expect(rsp).toEqual({
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify({ id: "7", expand: "all" }, null, 2),
+				},
+			],
+			structuredContent: { id: "7", expand: "all" },
+			isError: false,
+		});
+	});
+
+	it("returns identical output in local and remote modes", async () => {
+		const cases: [string, unknown][] = [
+			["GET_/items/:id", { id: "a b" }],
+			["POST /items", { name: "Widget" }],
+		];
+		for (const [name, args] of cases) {
+			const [fromLocal, fromRemote] = await Promise.all([
+				call(local, name, args),
+				call(remote, name, args),
+			]);
+			expect(fromLocal).toEqual(fromRemote);
+		}
+
+		for (const [name, message] of [
+			["GET_/items/:id", "Missing required path parameter 'id'"],
+			["GET_/nope", "Unknown tool: GET_/nope"],
+		]) {
+			const [localError, remoteError] = await Promise.all([
+				call(local, name, {}).catch((e: Error) => e.message),
+				call(remote, name, {}).catch((e: Error) => e.message),
+			]);
+			expect(localError).toContain(message);
+			expect(remoteError).toBe(localError);
+		}
+	});
+
+	it("reports error statuses as isError results", async () => {
+		const [fromLocal, fromRemote] = await Promise.all([
+			call(local, "DELETE_/items/:id", { id: "1" }),
+			call(remote, "DELETE_/items/:id", { id: "1" }),
+		]);
+		expect(fromLocal).toEqual({
+			content: [
+				{
+					type: "text",
+					text: "Tool 'DELETE_/items/:id' failed with HTTP 403 Forbidden: Missing scope items:delete",
+				},
+				{
+					type: "text",
+					text: JSON.stringify(
+						{ error: "Missing scope items:delete" },
+						null,
+						2,
+					),
+				},
+			],
+			_meta: { "expressjs-mcp/status": 403 },
+			isError: true,
+		});
+		expect(fromRemote).toEqual(fromLocal);
+
+		await expect(
+			expressMcp.invoke("DELETE_/items/:id", { id: "1" }),
+		).resolves.toMatchObject({ ok: false, status: 403 });
+	});
+
+	it("keeps transport failures as JSON-RPC errors", async () => {
+		const down = express().listen(0);
+		const { port } = down.address() as AddressInfo;
+		await new Promise((r) => down.close(r));
+
+		const unreachable = new MCPServer({ url: `http://127.0.0.1:${port}` });
+		await expect(
+			call(unreachable, "GET_/items/:id", { id: "1" }),
+		).rejects.toMatchObject({ code: -32603 });
+	});
+});
+
+describe("Status policy", () => {
+	it("lets callers decide which statuses are errors", async () => {
+		const app = express();
+		app.get("/maybe", (_req, res) => res.status(404).json({ found: false }));
+		const mcp = new ExpressMCP(app, {
+			isErrorStatus: (status) => status >= 500,
+		});
+		await mcp.init();
+
+		const rsp = await new MCPServer({ expressMcp: mcp }).handleRequest({
+			method: "tools/call",
+			params: { name: "GET_/maybe", arguments: {} },
+		});
+		expect(rsp).toMatchObject({ isError: false });
+		expect(await mcp.invoke("GET_/maybe")).toMatchObject({
+			ok: true,
+			status: 404,
+		});
+	});
+});
+
+describe("Binary results", () => {
+	const png = Buffer.from([
+		0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff,
+	]);
+	const dir = mkdtempSync(join(tmpdir(), "expressjs-mcp-"));
+	writeFileSync(join(dir, "logo.png"), png);
+
+	const app = express();
+	app.use(express.json());
+	app.get("/logo", (_req, res) => res.sendFile(join(dir, "logo.png")));
+	app.get("/beep", (_req, res) =>
+		res.type("audio/wav").send(Buffer.from([1, 2])),
+	);
+	app.get("/report", (_req, res) =>
+		res.type("pdf").send(Buffer.from("%PDF-1.7\xff", "latin1")),
+	);
+	app.get("/big", (_req, res) =>
+		res.type("application/octet-stream").send(Buffer.alloc(64, 7)),
+	);
+	app.post("/export", (_req, res) =>
+		res.type("application/zip").send(Buffer.alloc(64, 7)),
+	);
+
+	const expressMcp = new ExpressMCP(app, {
+		maxBinarySize: 32,
+		resources: (route) => route.path === "/big",
+	});
+	let server: Server;
+	let local: MCPServer;
+	let remote: MCPServer;
+
+	beforeAll(async () => {
+		await expressMcp.init();
+		expressMcp.mount("/mcp");
+		server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		local = new MCPServer({ expressMcp });
+		remote = new MCPServer({ url: `http://127.0.0.1:${port}` });
+	});
+
+	afterAll(async () => {
+		await expressMcp.close();
+		server.close();
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	const call = (mcp: MCPServer, name: string) =>
+		mcp.handleRequest({
+			method: "tools/call",
+			params: { name, arguments: {} },
+		});
+
+	it("returns images, audio and other files as content blocks", async () => {
+		expect(await call(local, "GET_/logo")).toEqual({
+			content: [
+				{ type: "image", data: png.toString("base64"), mimeType: "image/png" },
+			],
+			isError: false,
+		});
+		expect(await call(local, "GET_/beep")).toMatchObject({
+			content: [{ type: "audio", data: "AQI=", mimeType: "audio/wav" }],
+		});
+		expect(await call(local, "GET_/report")).toMatchObject({
+			content: [
+				{
+					type: "resource",
+					resource: {
+						uri: "express://app/report",
+						mimeType: "application/pdf",
+						blob: Buffer.from("%PDF-1.7\xff", "latin1").toString("base64"),
+					},
+				},
+			],
+		});
+	});
+
+	it("links to bodies over the size limit", async () => {
+		expect(await call(local, "GET_/big")).toEqual({
+			content: [
+				{
+					type: "resource_link",
+					uri: "express://app/big",
+					name: "GET_/big",
+					mimeType: "application/octet-stream",
+					size: 64,
+				},
+			],
+			isError: false,
+		});
+		const read = await local.handleRequest({
+			method: "resources/read",
+			params: { uri: "express://app/big" },
+		});
+		expect(read).toEqual({
+			contents: [
+				{
+					uri: "express://app/big",
+					mimeType: "application/octet-stream",
+					blob: Buffer.alloc(64, 7).toString("base64"),
+				},
+			],
+		});
+	});
+
+	it("reports large bodies it cannot link to as errors", async () => {
+		expect(await call(local, "POST_/export")).toEqual({
+			content: [
+				{
+					type: "text",
+					text: "Tool 'POST_/export' returned 64 bytes, over the 32-byte maxBinarySize limit, and its route is not a resource to link to",
+				},
+			],
+			_meta: { "expressjs-mcp/status": 200 },
+			isError: true,
+		});
+	});
+
+	it("gives the same blocks through a remote gateway", async () => {
+		// The size limit is the client's own; the remote one keeps the default
+		for (const name of ["GET_/logo", "GET_/beep", "GET_/report"]) {
+			expect(await call(remote, name)).toEqual(await call(local, name));
+		}
+	});
+});
@@ -0,0 +1,315 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import type { ExpressMCPOptions } from "../src";
+import { callToolResult } from "../src/mcpProtocol";
+import type { ToolSource } from "../src/toolSource";
+import { expressVersions } from "./expressVersions";
+import { mountMcp } from "./helpers";
+
+const initialize = {
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: {
+		protocolVersion: "2025-03-26",
+		capabilities: {},
+		clientInfo: { name: "test", version: "1.0.0" },
+	},
+};
+
+describe.each(expressVersions)(
+	"Streamable HTTP transport (express $version)",
+	({ express }) => {
+		const createApp = async (options: ExpressMCPOptions = {}) => {
+			const app = express();
+			app.use(express.json());
+			app.get("/items/:id", (req, res) => res.json({ id: req.params.id }));
+			app.post("/items", (req, res) => res.status(201).json(req.body));
+			app.get("/missing", (_req, res) =>
+				res.status(404).json({ error: "nope" }),
+			);
+
+			return mountMcp(app, options);
+		};
+
+		it("serves initialize, tools/list and tools/call to an MCP client", async () => {
+			const { app, mcp } = await createApp();
+			const server = app.listen(0);
+			const { port } = server.address() as AddressInfo;
+			const client = new Client({ name: "test", version: "1.0.0" });
+			try {
+				await client.connect(
+					new StreamableHTTPClientTransport(
+						new URL(`http://127.0.0.1:${port}/mcp`),
+					),
+				);
+
+				const { tools } = await client.listTools();
+				expect(tools.map((t) => t.name)).toEqual([
+					"GET_/items/:id",
+					"POST_/items",
+					"GET_/missing",
+				]);
+
+				const got = await client.callTool({
+					name: "GET_/items/:id",
+					arguments: { id: "42" },
+				});
+				expect(got.isError).toBe(false);
+				expect(JSON.parse((got.content as { text: string }[])[0].text)).toEqual(
+					{
+						id: "42",
+					},
+				);
+
+				const missing = await client.callTool({ name: "GET_/missing" });
+				expect(missing.isError).toBe(true);
+
+				await expect(
+					client.callTool({ name: "GET_/items/:id", arguments: {} }),
+				).rejects.toThrow(/Missing required path parameter 'id'/);
+
+				const changed = new Promise<void>((resolve) =>
+					client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+						resolve(),
+					),
+				);
+				app.delete("/items/:id", (_req, res) => res.status(204).end());
+				await mcp.init();
+				await changed;
+				const { tools: after } = await client.listTools();
+				expect(after.map((t) => t.name)).toContain("DELETE_/items/:id");
+				// The transport's own routes never become tools
+				expect(after.map((t) => t.name)).not.toContain("POST_/mcp");
+			} finally {
+				await client.close();
+				await mcp.close();
+				server.close();
+			}
+		});
+
+		it("manages sessions with Mcp-Session-Id", async () => {
+			const { app, mcp } = await createApp();
+			const agent = request(app);
+			const accept = "application/json, text/event-stream";
+
+			const init = await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.send(initialize)
+				.expect(200);
+			const sessionId = init.headers["mcp-session-id"];
+			expect(sessionId).toBeTruthy();
+
+			await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+				.expect(400);
+			await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.set("Mcp-Session-Id", "unknown")
+				.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+				.expect(404);
+
+			await agent.delete("/mcp").set("Mcp-Session-Id", sessionId).expect(200);
+			await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.set("Mcp-Session-Id", sessionId)
+				.send({ jsonrpc: "2.0", id: 3, method: "tools/list" })
+				.expect(404);
+			await mcp.close();
+		});
+
+		it("opens sessions only for initialize and closes idle ones", async () => {
+			const { app, mcp } = await createApp({ sessionTimeout: 50 });
+			const agent = request(app);
+			const accept = "application/json, text/event-stream";
+			// Every protocol server listens for tool list changes until closed
+			const listeners = () =>
+				(mcp as unknown as { server: { toolListeners: Set<unknown> } }).server
+					.toolListeners.size;
+			const before = listeners();
+
+			for (let id = 1; id <= 5; id++) {
+				await agent
+					.post("/mcp")
+					.set("Accept", accept)
+					.send({ jsonrpc: "2.0", id, method: "tools/list" })
+					.expect(400);
+			}
+			await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.set("Content-Type", "application/json")
+				.send("{not json")
+				.expect(400);
+			expect(listeners()).toBe(before);
+
+			const init = await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.send(initialize)
+				.expect(200);
+			const sessionId = init.headers["mcp-session-id"];
+			expect(listeners()).toBe(before + 1);
+
+			await new Promise((resolve) => setTimeout(resolve, 150));
+			expect(listeners()).toBe(before);
+			await agent
+				.post("/mcp")
+				.set("Accept", accept)
+				.set("Mcp-Session-Id", sessionId)
+				.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+				.expect(404);
+			await mcp.close();
+		});
+
+		it("can drop the legacy JSON endpoints", async () => {
+			const { app, mcp } = await createApp({ legacyEndpoints: false });
+			await request(app).get("/mcp/tools").expect(404);
+			await mcp.close();
+		});
+
+		it("serves the HTTP+SSE transport from the same registry", async () => {
+			const { app, mcp } = await createApp({ sse: true });
+			const parent = express();
+			parent.use("/api", app);
+			const server = parent.listen(0);
+			const { port } = server.address() as AddressInfo;
+			const client = new Client({ name: "test", version: "1.0.0" });
+			try {
+				await client.connect(
+					new SSEClientTransport(
+						new URL(`http://127.0.0.1:${port}/api/mcp/sse`),
+					),
+				);
+
+				const { tools } = await client.listTools();
+				expect(tools.map((t) => t.name)).toEqual(
+					mcp.listTools().map((t) => t.name),
+				);
+				const got = await client.callTool({
+					name: "POST_/items",
+					arguments: { name: "Widget" },
+				});
+				expect(JSON.parse((got.content as { text: string }[])[0].text)).toEqual(
+					{
+						name: "Widget",
+					},
+				);
+
+				await request(app)
+					.post("/mcp/messages?sessionId=unknown")
+					.send({})
+					.expect(404);
+			} finally {
+				await client.close();
+				await mcp.close();
+				server.close();
+			}
+		});
+
+		it("advertises outputSchema and returns structuredContent", async () => {
+			const warnings: unknown[][] = [];
+			const { app, mcp } = await createApp({
+				debug: true,
+				logging: {
+					info: () => undefined,
+					error: () => undefined,
+					warn: (...a: unknown[]) => warnings.push(a),
+				},
+				schemaAnnotations: {
+					"GET /items/:id": {
+						output: z.object({ id: z.number() }),
+					},
+					"GET /tags": { output: z.object({ tags: z.array(z.string()) }) },
+				},
+			});
+			const server = app.listen(0);
+			const { port } = server.address() as AddressInfo;
+			const client = new Client({ name: "test", version: "1.0.0" });
+			try {
+				await client.connect(
+					new StreamableHTTPClientTransport(
+						new URL(`http://127.0.0.1:${port}/mcp`),
+					),
+				);
+
+				const { tools } = await client.listTools();
+				const byName = Object.fromEntries(tools.map((t) => [t.name, t]));
+				expect(byName["GET_/items/:id"].outputSchema).toMatchObject({
+					type: "object",
+					properties: { id: { type: "number" } },
+				});
+				// The permissive default is not advertised
+				expect(byName["POST_/items"].outputSchema).toBeUndefined();
+
+				const created = await client.callTool({
+					name: "POST_/items",
+					arguments: { name: "Widget" },
+				});
+				expect(created.structuredContent).toEqual({ name: "Widget" });
+				expect(warnings).toEqual([]);
+
+				// The route answers `id` as a string, which debug mode reports
+				await client
+					.callTool({ name: "GET_/items/:id", arguments: { id: "1" } })
+					.catch(() => undefined);
+				expect(warnings).toHaveLength(1);
+				expect(String(warnings[0][0])).toContain(
+					"does not match its outputSchema",
+				);
+
+				// A non-object answer is an error, not a success without structuredContent
+				app.get("/tags", (_req, res) => res.json(["a", "b"]));
+				await mcp.init();
+				const tags = await client.callTool({ name: "GET_/tags" });
+				expect(tags.isError).toBe(true);
+				expect((tags.content as { text: string }[])[0].text).toBe(
+					"Tool 'GET_/tags' returned an array (HTTP 200), not the object its outputSchema declares",
+				);
+			} finally {
+				await client.close();
+				await mcp.close();
+				server.close();
+			}
+		});
+	},
+);
+
+describe("callToolResult", () => {
+	it("treats a failed outputSchema lookup as no schema", async () => {
+		const errors: unknown[][] = [];
+		const source: ToolSource = {
+			listTools: () => Promise.reject(new Error("gateway down")),
+			callTool: async () => ({ status: 200, body: [1, 2] }),
+		};
+		const result = await callToolResult(
+			source,
+			"GET_/numbers",
+			{},
+			{
+				log: {
+					info: () => undefined,
+					error: (...a: unknown[]) => errors.push(a),
+				},
+			},
+		);
+		expect(result).toEqual({
+			content: [{ type: "text", text: JSON.stringify([1, 2], null, 2) }],
+			isError: false,
+		});
+		expect(String(errors[0][0])).toContain(
+			"Could not look up the outputSchema of 'GET_/numbers'",
+		);
+	});
+});
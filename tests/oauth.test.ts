@@ -0,0 +1,152 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import express, { type Request } from "express";
+import {
+	type JSONWebKeySet,
+	type KeyLike,
+	SignJWT,
+	exportJWK,
+	generateKeyPair,
+} from "jose";
+import request from "supertest";
+import { beforeAll, describe, expect, it } from "vitest";
+import { type OAuthOptions, resourceMetadataUrl } from "../src";
+import { mountMcp } from "./helpers";
+
+const resource = "https://api.example.com/mcp";
+const issuer = "https://auth.example.com/";
+
+let key: KeyLike;
+let jwks: JSONWebKeySet;
+
+beforeAll(async () => {
+	const pair = await generateKeyPair("RS256");
+	key = pair.privateKey;
+	jwks = { keys: [{ ...(await exportJWK(pair.publicKey)), kid: "k1" }] };
+});
+
+const sign = (claims: Record<string, unknown> = {}, audience = resource) =>
+	new SignJWT({ scope: "mcp:tools", ...claims })
+		.setProtectedHeader({ alg: "RS256", kid: "k1" })
+		.setSubject("alice")
+		.setIssuer(issuer)
+		.setAudience(audience)
+		.setExpirationTime("5m")
+		.sign(key);
+
+const createApp = async (oauth: Partial<OAuthOptions> = {}) => {
+	const app = express();
+	app.use(express.json());
+	app.get("/me", (req, res) =>
+		res.json((req as Request & { user?: unknown }).user ?? null),
+	);
+	return mountMcp(app, {
+		auth: {
+			oauth: {
+				resource,
+				authorizationServers: [issuer],
+				jwks,
+				requiredScopes: ["mcp:tools"],
+				...oauth,
+			},
+		},
+	});
+};
+
+const invoke = (app: express.Express, token?: string) => {
+	const req = request(app).post("/mcp/invoke");
+	if (token) req.set("Authorization", `Bearer ${token}`);
+	return req.send({ toolName: "GET_/me", args: {} });
+};
+
+describe("OAuth protected resource", () => {
+	it("serves protected resource metadata", async () => {
+		const { app, mcp } = await createApp({ resourceName: "Shop" });
+		const metadata = {
+			resource,
+			authorization_servers: [issuer],
+			bearer_methods_supported: ["header"],
+			scopes_supported: ["mcp:tools"],
+			resource_name: "Shop",
+		};
+		for (const path of [
+			"/.well-known/oauth-protected-resource/mcp",
+			"/.well-known/oauth-protected-resource",
+		]) {
+			const res = await request(app).get(path);
+			expect(res.status).toBe(200);
+			expect(res.body).toEqual(metadata);
+		}
+		// The metadata routes are not tools
+		expect(mcp.listTools().map((t) => t.name)).toEqual(["GET_/me"]);
+		expect(resourceMetadataUrl(resource)).toBe(
+			"https://api.example.com/.well-known/oauth-protected-resource/mcp",
+		);
+		await mcp.close();
+	});
+
+	it("challenges requests without a token", async () => {
+		const { app, mcp } = await createApp();
+		const res = await invoke(app);
+		expect(res.status).toBe(401);
+		expect(res.headers["www-authenticate"]).toBe(
+			`Bearer resource_metadata="${resourceMetadataUrl(resource)}"`,
+		);
+		await mcp.close();
+	});
+
+	it("accepts valid tokens and passes their claims to routes", async () => {
+		const { app, mcp } = await createApp();
+		const res = await invoke(app, await sign({ roles: ["admin"] }));
+		expect(res.body).toMatchObject({
+			ok: true,
+			result: {
+				id: "alice",
+				scopes: ["mcp:tools"],
+				roles: ["admin"],
+				claims: { sub: "alice", iss: issuer },
+			},
+		});
+		await mcp.close();
+	});
+
+	it("rejects tokens for another audience as invalid_token", async () => {
+		const { app, mcp } = await createApp();
+		const res = await invoke(
+			app,
+			await sign({}, "https://other.example.com/mcp"),
+		);
+		expect(res.status).toBe(401);
+		expect(res.body.error).toBe("invalid_token");
+		expect(res.headers["www-authenticate"]).toMatch(
+			/^Bearer resource_metadata="[^"]+", error="invalid_token", error_description="/,
+		);
+		expect((await invoke(app, "not-a-jwt")).status).toBe(401);
+		await mcp.close();
+	});
+
+	it("answers 403 insufficient_scope when scopes are missing", async () => {
+		const { app, mcp } = await createApp({
+			requiredScopes: ["mcp:tools", "orders:read"],
+		});
+		const res = await invoke(app, await sign());
+		expect(res.status).toBe(403);
+		expect(res.body).toEqual({
+			error: "insufficient_scope",
+			error_description: "Missing scope orders:read",
+		});
+		expect(res.headers["www-authenticate"]).toContain(
+			'scope="mcp:tools orders:read"',
+		);
+		await mcp.close();
+	});
+
+	it("reads keys from a JWKS file", async () => {
+		const file = join(mkdtempSync(join(tmpdir(), "jwks-")), "jwks.json");
+		writeFileSync(file, JSON.stringify(jwks));
+		const { app, mcp } = await createApp({ jwks: file });
+		expect((await invoke(app, await sign())).body.ok).toBe(true);
+		await mcp.close();
+	});
+});
@@ -0,0 +1,159 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import express from "express";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ExpressMCP } from "../src";
+import { loadOpenApi } from "../src/openapiLoader";
+import type { ToolDefinition } from "../src/schemaResolver";
+
+/** The parts of the bundled test spec the assertions read. */
+type BundledSpec = {
+	paths: Record<string, { get: { parameters: unknown[] } }>;
+	components: Record<string, unknown>;
+};
+
+const spec = (summary: string) => `
+openapi: 3.0.0
+info: { title: Items, version: 1.0.0 }
+paths:
+  /items/{id}:
+    get:
+      summary: ${summary}
+      parameters:
+        - $ref: "./common.yaml#/parameters/ItemId"
+      responses:
+        "200":
+          description: Item
+          content:
+            application/json:
+              schema:
+                $ref: "./schemas/item.json"
+`;
+
+const common = `
+parameters:
+  ItemId:
+    name: id
+    in: path
+    required: true
+    schema:
+      type: integer
+`;
+
+const item = JSON.stringify({
+	type: "object",
+	properties: {
+		id: { type: "integer" },
+		owner: { $ref: "#/definitions/User" },
+	},
+	definitions: {
+		User: { type: "object", properties: { name: { type: "string" } } },
+	},
+});
+
+describe("OpenAPI loading", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "expressjs-mcp-"));
+		await writeFile(join(dir, "openapi.yaml"), spec("Get item"));
+		await writeFile(join(dir, "common.yaml"), common);
+		await mkdir(join(dir, "schemas"));
+		await writeFile(join(dir, "schemas", "item.json"), item);
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("parses YAML and bundles external $refs as local pointers", async () => {
+		const { doc, files } = await loadOpenApi(join(dir, "openapi.yaml"));
+		const { paths, components } = doc as BundledSpec;
+		const op = paths["/items/{id}"].get;
+
+		expect(op.parameters).toEqual([{ $ref: "#/components/x-bundled/ItemId" }]);
+		expect(components["x-bundled"]).toMatchObject({
+			ItemId: { name: "id", in: "path" },
+			item: {
+				properties: { owner: { $ref: "#/components/x-bundled/User" } },
+			},
+			User: { properties: { name: { type: "string" } } },
+		});
+		expect(files.sort()).toEqual(
+			[
+				join(dir, "common.yaml"),
+				join(dir, "openapi.yaml"),
+				join(dir, "schemas", "item.json"),
+			].sort(),
+		);
+	});
+
+	it("builds tools from a spec path or file:// URL", async () => {
+		const app = express();
+		app.get("/items/:id", (_req, res) => res.json({}));
+
+		for (const openapi of [
+			join(dir, "openapi.yaml"),
+			pathToFileURL(join(dir, "openapi.yaml")).href,
+		]) {
+			const mcp = new ExpressMCP(app, { openapi });
+			await mcp.init();
+			const [tool]: ToolDefinition[] = mcp.listTools();
+			expect(tool.description).toBe("Get item");
+			expect(tool.inputSchema).toHaveProperty("properties.id", {
+				type: "integer",
+				"x-in": "path",
+			});
+			expect(tool.outputSchema).toHaveProperty("properties.owner", {
+				type: "object",
+				properties: { name: { type: "string" } },
+			});
+		}
+	});
+
+	it("reloads tools when the spec file changes", async () => {
+		const app = express();
+		app.get("/items/:id", (_req, res) => res.json({}));
+		const mcp = new ExpressMCP(app, {
+			openapi: join(dir, "openapi.yaml"),
+			watchOpenApi: true,
+			logging: { info: () => {}, error: () => {} },
+		});
+		await mcp.init();
+
+		try {
+			await writeFile(join(dir, "openapi.yaml"), spec("Fetch one item"));
+			const deadline = Date.now() + 3000;
+			while (
+				mcp.listTools()[0].description !== "Fetch one item" &&
+				Date.now() < deadline
+			) {
+				await new Promise((r) => setTimeout(r, 25));
+			}
+			expect(mcp.listTools()[0].description).toBe("Fetch one item");
+		} finally {
+			await mcp.close();
+		}
+	});
+
+	it("drops a pending reload on close()", async () => {
+		const app = express();
+		app.get("/items/:id", (_req, res) => res.json({}));
+		const mcp = new ExpressMCP(app, {
+			openapi: join(dir, "openapi.yaml"),
+			watchOpenApi: true,
+			logging: { info: () => {}, error: () => {} },
+		});
+		await mcp.init();
+		const init = vi.spyOn(mcp, "init");
+
+		await writeFile(join(dir, "openapi.yaml"), spec("Changed after close"));
+		// Let the change event arrive, but close before the reload settles
+		await new Promise((r) => setTimeout(r, 20));
+		await mcp.close();
+		await new Promise((r) => setTimeout(r, 100));
+		expect(init).not.toHaveBeenCalled();
+	});
+});
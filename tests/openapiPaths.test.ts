@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { RouteInfo } from "../src";
+import {
+	findPathItem,
+	fromOpenApiPath,
+	normalizePath,
+	serverBasePaths,
+	toOpenApiPath,
+} from "../src/openapiPaths";
+import { SchemaResolver } from "../src/schemaResolver";
+
+const route = (method: string, path: string): RouteInfo => ({
+	method,
+	path,
+	middlewares: [],
+	handler: () => undefined,
+});
+
+describe("OpenAPI path templates", () => {
+	it("converts between Express and OpenAPI syntax", () => {
+		expect(toOpenApiPath("/items/:id")).toBe("/items/{id}");
+		expect(toOpenApiPath("/orders/:orderId(\\d+)/lines/:line?")).toBe(
+			"/orders/{orderId}/lines/{line}",
+		);
+		expect(toOpenApiPath("/files/*")).toBe("/files/{0}");
+		expect(fromOpenApiPath("/users/{userId}/posts/{postId}")).toBe(
+			"/users/:userId/posts/:postId",
+		);
+	});
+
+	it("normalizes slashes", () => {
+		expect(normalizePath("/items/")).toBe("/items");
+		expect(normalizePath("//api//items")).toBe("/api/items");
+		expect(normalizePath("/")).toBe("/");
+	});
+
+	it("reads base paths from servers, including variables", () => {
+		expect(
+			serverBasePaths({
+				servers: [
+					{ url: "https://api.example.com/v1/" },
+					{ url: "/internal" },
+					{
+						url: "https://{host}/{version}",
+						variables: {
+							host: { default: "x.io" },
+							version: { default: "v2" },
+						},
+					},
+					{ url: "https://api.example.com" },
+				],
+			}),
+		).toEqual(["/v1", "/internal", "/v2"]);
+	});
+
+	it("matches routes regardless of param names, base paths and trailing slashes", () => {
+		const doc = {
+			servers: [{ url: "https://api.example.com/api/v1" }],
+			paths: {
+				"/items/{itemId}": { get: { summary: "Get item" } },
+				"/health/": { get: { summary: "Health" } },
+			},
+		};
+		expect(findPathItem(doc, "/api/v1/items/:id")).toEqual({
+			pathItem: doc.paths["/items/{itemId}"],
+			renames: { itemId: "id" },
+		});
+		expect(findPathItem(doc, "/health")?.pathItem).toBe(doc.paths["/health/"]);
+		expect(findPathItem(doc, "/items")).toBeUndefined();
+	});
+
+	it("feeds renamed path params into the tool schema", () => {
+		const resolver = new SchemaResolver({
+			openapi: {
+				paths: {
+					"/items/{itemId}": {
+						get: {
+							summary: "Get item by ID",
+							parameters: [
+								{
+									name: "itemId",
+									in: "path",
+									required: true,
+									schema: { type: "integer" },
+								},
+							],
+						},
+					},
+				},
+			},
+		});
+		const tool = resolver.toTool(route("GET", "/items/:id"));
+		expect(tool.description).toBe("Get item by ID");
+		expect(tool.inputSchema).toEqual({
+			type: "object",
+			properties: { id: { type: "integer", "x-in": "path" } },
+			required: ["id"],
+			additionalProperties: true,
+		});
+	});
+});
@@ -0,0 +1,190 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import express, { type Request, type Response } from "express";
+import { describe, expect, it } from "vitest";
+import type { ExpressMCPOptions } from "../src";
+import {
+	ApiOperation,
+	Controller,
+	Post,
+	registerController,
+} from "../src/decorators";
+import { MCPServer } from "../src/mcp-server";
+import { mountMcp, silent } from "./helpers";
+
+@Controller("/items")
+class ItemsController {
+	@Post("/")
+	@ApiOperation({
+		summary: "Create an item",
+		description: "Adds an item to the catalogue",
+	})
+	create(req: Request, res: Response) {
+		res.status(201).json(req.body);
+	}
+}
+
+const openapi = {
+	openapi: "3.0.0",
+	info: { title: "Shop", version: "1" },
+	paths: {
+		"/orders/{id}": {
+			get: {
+				summary: "Get an order",
+				parameters: [
+					{
+						name: "id",
+						in: "path",
+						required: true,
+						description: "Order number",
+						schema: { type: "string" },
+					},
+				],
+				responses: { "200": { description: "The order" } },
+			},
+		},
+	},
+};
+
+const createApp = async (options: ExpressMCPOptions = {}) => {
+	const app = express();
+	app.use(express.json());
+	registerController(app, new ItemsController());
+	app.get("/orders/:id", (req, res) => res.json({ id: req.params.id }));
+	app.get("/health", (_req, res) => res.send("ok"));
+	return mountMcp(app, { openapi, ...options });
+};
+
+const withClient = async (
+	options: ExpressMCPOptions,
+	run: (client: Client) => Promise<void>,
+) => {
+	const { app, mcp } = await createApp(options);
+	const server = app.listen(0);
+	const { port } = server.address() as AddressInfo;
+	const client = new Client({ name: "test", version: "1.0.0" });
+	try {
+		await client.connect(
+			new StreamableHTTPClientTransport(
+				new URL(`http://127.0.0.1:${port}/mcp`),
+			),
+		);
+		await run(client);
+	} finally {
+		await client.close();
+		await mcp.close();
+		server.close();
+	}
+};
+
+describe("Prompts", () => {
+	it("builds prompts from @ApiOperation and OpenAPI metadata", async () => {
+		await withClient(
+			{ prompts: (route) => route.path !== "/health" },
+			async (client) => {
+				const { prompts } = await client.listPrompts();
+				expect(prompts).toEqual([
+					{
+						name: "POST_/items/",
+						title: "Create an item",
+						description: "Adds an item to the catalogue",
+						arguments: [],
+					},
+					{
+						name: "GET_/orders/:id",
+						title: "Get an order",
+						description: "Get an order",
+						arguments: [
+							{ name: "id", description: "Order number", required: true },
+						],
+					},
+				]);
+
+				const order = await client.getPrompt({
+					name: "GET_/orders/:id",
+					arguments: { id: "A-1" },
+				});
+				expect(order.messages).toEqual([
+					{
+						role: "user",
+						content: {
+							type: "text",
+							text: [
+								"Get an order",
+								"",
+								"Use the `GET_/orders/:id` tool (GET /orders/:id) with these arguments:",
+								"- id: A-1",
+							].join("\n"),
+						},
+					},
+				]);
+
+				const create = await client.getPrompt({ name: "POST_/items/" });
+				expect(create.messages[0].content).toMatchObject({
+					text: [
+						"Create an item",
+						"Adds an item to the catalogue",
+						"",
+						"Use the `POST_/items/` tool (POST /items/).",
+					].join("\n"),
+				});
+			},
+		);
+	});
+
+	it("serves hand-written prompt templates that reference tools", async () => {
+		const warnings: unknown[][] = [];
+		await withClient(
+			{
+				logging: { ...silent, warn: (...a: unknown[]) => warnings.push(a) },
+				promptTemplates: [
+					{
+						name: "restock",
+						title: "Restock an order",
+						arguments: [{ name: "order", required: true }],
+						tools: ["GET_/orders/:id", "POST_/items/", "GET_/nope"],
+						text: "Look up order {{ order }} and create its missing items.",
+					},
+				],
+			},
+			async (client) => {
+				const { prompts } = await client.listPrompts();
+				expect(prompts.map((p) => p.name)).toEqual(["restock"]);
+
+				const got = await client.getPrompt({
+					name: "restock",
+					arguments: { order: "A-1" },
+				});
+				expect(got.messages[0].content).toMatchObject({
+					text: [
+						"Look up order A-1 and create its missing items.",
+						"",
+						"Tools:",
+						"- `GET_/orders/:id`: Get an order",
+						"- `POST_/items/`: Adds an item to the catalogue",
+					].join("\n"),
+				});
+				expect(String(warnings[0][0])).toContain(
+					"refers to unknown tool 'GET_/nope'",
+				);
+
+				await expect(
+					client.getPrompt({ name: "restock", arguments: {} }),
+				).rejects.toThrow(/Missing required argument 'order'/);
+				await expect(client.getPrompt({ name: "nope" })).rejects.toThrow(
+					/Unknown prompt: nope/,
+				);
+			},
+		);
+	});
+
+	it("publishes no prompts by default, also through MCPServer", async () => {
+		const { mcp } = await createApp();
+		const local = new MCPServer({ expressMcp: mcp });
+		expect(
+			await local.handleRequest({ method: "prompts/list", params: {} }),
+		).toEqual({ prompts: [] });
+		await mcp.close();
+	});
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import type { RouteInfo } from "../src";
+import { dereferenceSchema } from "../src/refResolver";
+import { SchemaResolver } from "../src/schemaResolver";
+
+const route = (method: string, path: string): RouteInfo => ({
+	method,
+	path,
+	middlewares: [],
+	handler: () => undefined,
+});
+
+const openapi = {
+	openapi: "3.0.0",
+	paths: {
+		"/items": {
+			get: {
+				parameters: [{ $ref: "#/components/parameters/Limit" }],
+				responses: { "200": { $ref: "#/components/responses/ItemList" } },
+			},
+			post: {
+				requestBody: { $ref: "#/components/requestBodies/NewItem" },
+				responses: {
+					"201": {
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/Item" },
+							},
+						},
+					},
+				},
+			},
+		},
+		"/categories": {
+			post: {
+				requestBody: {
+					content: {
+						"application/json": {
+							schema: { $ref: "#/components/schemas/Category" },
+						},
+					},
+				},
+			},
+		},
+	},
+	components: {
+		parameters: {
+			Limit: {
+				name: "limit",
+				in: "query",
+				schema: { $ref: "#/components/schemas/PageSize" },
+			},
+		},
+		requestBodies: {
+			NewItem: {
+				required: true,
+				content: {
+					"application/json": {
+						schema: { $ref: "#/components/schemas/NewItem" },
+					},
+				},
+			},
+		},
+		responses: {
+			ItemList: {
+				description: "Items",
+				content: {
+					"application/json": {
+						schema: {
+							type: "array",
+							items: { $ref: "#/components/schemas/Item" },
+						},
+					},
+				},
+			},
+		},
+		schemas: {
+			PageSize: { type: "integer", maximum: 100 },
+			NewItem: {
+				type: "object",
+				properties: { name: { type: "string" } },
+				required: ["name"],
+			},
+			Item: {
+				allOf: [
+					{ $ref: "#/components/schemas/NewItem" },
+					{ type: "object", properties: { id: { type: "integer" } } },
+				],
+			},
+			Category: {
+				type: "object",
+				properties: {
+					name: { type: "string" },
+					children: {
+						type: "array",
+						items: { $ref: "#/components/schemas/Category" },
+					},
+				},
+			},
+		},
+	},
+};
+
+describe("OpenAPI $ref resolution", () => {
+	const resolver = new SchemaResolver({ openapi });
+
+	it("dereferences parameters, request bodies and responses", () => {
+		const list = resolver.toTool(route("GET", "/items"));
+		expect(list.inputSchema).toEqual({
+			type: "object",
+			properties: {
+				limit: { type: "integer", maximum: 100, "x-in": "query" },
+			},
+			additionalProperties: true,
+		});
+		expect(list.outputSchema).toEqual({
+			type: "array",
+			items: {
+				allOf: [
+					{
+						type: "object",
+						properties: { name: { type: "string" } },
+						required: ["name"],
+					},
+					{ type: "object", properties: { id: { type: "integer" } } },
+				],
+			},
+		});
+
+		const create = resolver.toTool(route("POST", "/items"));
+		expect(create.inputSchema).toEqual(openapi.components.schemas.NewItem);
+		expect(JSON.stringify(create.outputSchema)).not.toContain("$ref");
+	});
+
+	it("bundles recursive schemas under $defs", () => {
+		const tool = resolver.toTool(route("POST", "/categories"));
+		expect(tool.inputSchema).toEqual({
+			type: "object",
+			properties: {
+				name: { type: "string" },
+				children: { type: "array", items: { $ref: "#/$defs/Category" } },
+			},
+			$defs: {
+				Category: {
+					type: "object",
+					properties: {
+						name: { type: "string" },
+						children: { type: "array", items: { $ref: "#/$defs/Category" } },
+					},
+				},
+			},
+		});
+	});
+
+	it("keeps $ref siblings and leaves unknown pointers alone", () => {
+		expect(
+			dereferenceSchema(openapi, {
+				properties: {
+					size: { $ref: "#/components/schemas/PageSize", description: "Size" },
+					local: { $ref: "#/$defs/Local" },
+				},
+			}),
+		).toEqual({
+			properties: {
+				size: { type: "integer", maximum: 100, description: "Size" },
+				local: { $ref: "#/$defs/Local" },
+			},
+		});
+	});
+});
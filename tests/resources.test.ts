@@ -0,0 +1,291 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it, vi } from "vitest";
+import { ExpressMCP, type ExpressMCPOptions } from "../src";
+import { MCPServer } from "../src/mcp-server";
+import { expressVersions } from "./expressVersions";
+import { mountMcp, silent } from "./helpers";
+
+describe.each(expressVersions)(
+	"Resources (express $version)",
+	({ express }) => {
+		const createApp = async (options: ExpressMCPOptions = {}) => {
+			const app = express();
+			app.use(express.json());
+			app.get("/status", (_req, res) => res.json({ ok: true }));
+			app.get("/items/:id", (req, res) => {
+				if (req.params.id === "0") {
+					return res.status(404).json({ error: "No such item" });
+				}
+				res.json({ id: req.params.id, verbose: req.query.verbose ?? null });
+			});
+			app.get("/boom", (_req, res) => res.status(500).send("Kaput"));
+			app.get("/notes/:name/text", (req, res) =>
+				res.type("text").send(`Note ${req.params.name}`),
+			);
+			app.post("/items", (req, res) => res.status(201).json(req.body));
+			app.put("/items/:id", (req, res) => {
+				if (req.params.id === "0") return res.status(404).end();
+				res.json({ id: req.params.id, ...req.body });
+			});
+
+			return mountMcp(app, options);
+		};
+
+		const withClient = async (
+			options: ExpressMCPOptions,
+			run: (client: Client, baseUrl: string) => Promise<void>,
+		) => {
+			const { app, mcp } = await createApp(options);
+			const server = app.listen(0);
+			const { port } = server.address() as AddressInfo;
+			const client = new Client({ name: "test", version: "1.0.0" });
+			try {
+				await client.connect(
+					new StreamableHTTPClientTransport(
+						new URL(`http://127.0.0.1:${port}/mcp`),
+					),
+				);
+				await run(client, `http://127.0.0.1:${port}`);
+			} finally {
+				await client.close();
+				await mcp.close();
+				server.close();
+			}
+		};
+
+		it("lists static GET routes as resources and parameterized ones as templates", async () => {
+			await withClient({ resources: true }, async (client) => {
+				const { resources } = await client.listResources();
+				expect(resources).toEqual([
+					{
+						uri: "express://app/status",
+						name: "GET_/status",
+						title: "GET /status",
+						description: "Invoke GET /status",
+					},
+					expect.objectContaining({ uri: "express://app/boom" }),
+				]);
+
+				const { resourceTemplates } = await client.listResourceTemplates();
+				expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+					"express://app/items/{id}",
+					"express://app/notes/{name}/text",
+				]);
+
+				// Resource routes stay tools
+				const { tools } = await client.listTools();
+				expect(tools.map((t) => t.name)).toContain("GET_/items/:id");
+			});
+		});
+
+		it("reads resources through the routes", async () => {
+			await withClient({ resources: true }, async (client) => {
+				expect(
+					await client.readResource({ uri: "express://app/status" }),
+				).toEqual({
+					contents: [
+						{
+							uri: "express://app/status",
+							mimeType: "application/json",
+							text: JSON.stringify({ ok: true }, null, 2),
+						},
+					],
+				});
+
+				const item = await client.readResource({
+					uri: "express://app/items/a%20b?verbose=1",
+				});
+				expect(JSON.parse((item.contents[0] as { text: string }).text)).toEqual(
+					{
+						id: "a b",
+						verbose: "1",
+					},
+				);
+
+				const note = await client.readResource({
+					uri: "express://app/notes/todo/text",
+				});
+				expect(note.contents[0]).toMatchObject({
+					mimeType: "text/plain",
+					text: "Note todo",
+				});
+			});
+		});
+
+		it("reports unknown URIs, 404s and error statuses as errors", async () => {
+			await withClient({ resources: true }, async (client) => {
+				await expect(
+					client.readResource({ uri: "express://app/nowhere" }),
+				).rejects.toMatchObject({ code: -32002 });
+				await expect(
+					client.readResource({ uri: "express://app/items/0" }),
+				).rejects.toMatchObject({ code: -32002 });
+				await expect(
+					client.readResource({ uri: "express://app/boom" }),
+				).rejects.toThrow(
+					"Resource 'express://app/boom' failed with HTTP 500 Internal Server Error: Kaput",
+				);
+			});
+		});
+
+		it("exposes only the selected routes, under a custom base URI", async () => {
+			await withClient(
+				{
+					resources: (route) => route.path.startsWith("/items"),
+					resourceBaseUri: "shop://api/",
+				},
+				async (client) => {
+					const { resources } = await client.listResources();
+					expect(resources).toEqual([]);
+					const { resourceTemplates } = await client.listResourceTemplates();
+					expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+						"shop://api/items/{id}",
+					]);
+					const item = await client.readResource({ uri: "shop://api/items/7" });
+					expect(item.contents[0].uri).toBe("shop://api/items/7");
+				},
+			);
+		});
+
+		it("exposes no resources by default", async () => {
+			await withClient({}, async (client) => {
+				expect((await client.listResources()).resources).toEqual([]);
+				expect(
+					(await client.listResourceTemplates()).resourceTemplates,
+				).toEqual([]);
+			});
+		});
+
+		it("notifies subscribers of mutations over MCP and plain HTTP", async () => {
+			await withClient({ resources: true }, async (client, baseUrl) => {
+				const updates: string[] = [];
+				client.setNotificationHandler(
+					ResourceUpdatedNotificationSchema,
+					(n) => {
+						updates.push(n.params.uri);
+					},
+				);
+				await client.subscribeResource({ uri: "express://app/items/7" });
+				await client.subscribeResource({ uri: "express://app/items" });
+				await client.subscribeResource({ uri: "express://app/status" });
+
+				await fetch(`${baseUrl}/items/7`, {
+					method: "PUT",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ name: "Seven" }),
+				});
+				await vi.waitFor(() =>
+					expect(updates).toEqual([
+						"express://app/items/7",
+						"express://app/items",
+					]),
+				);
+
+				updates.length = 0;
+				await client.callTool({
+					name: "POST_/items",
+					arguments: { name: "New" },
+				});
+				await vi.waitFor(() =>
+					expect(updates).toEqual(["express://app/items"]),
+				);
+
+				// Failed mutations and reads change nothing
+				updates.length = 0;
+				await client.unsubscribeResource({ uri: "express://app/items" });
+				await fetch(`${baseUrl}/items/0`, { method: "PUT" });
+				await fetch(`${baseUrl}/items/7`);
+				await client.callTool({
+					name: "PUT_/items/:id",
+					arguments: { id: "7" },
+				});
+				await vi.waitFor(() =>
+					expect(updates).toEqual(["express://app/items/7"]),
+				);
+			});
+		});
+
+		it("maps mutations to resources with resourceUpdates", async () => {
+			const mutations: unknown[] = [];
+			await withClient(
+				{
+					resources: true,
+					resourceUpdates: (mutation) => {
+						mutations.push(mutation);
+						return ["/status", "express://app/items/all"];
+					},
+				},
+				async (client, baseUrl) => {
+					const updates: string[] = [];
+					client.setNotificationHandler(
+						ResourceUpdatedNotificationSchema,
+						(n) => {
+							updates.push(n.params.uri);
+						},
+					);
+					await client.subscribeResource({ uri: "express://app/status" });
+					await client.subscribeResource({
+						uri: "express://app/items/all?page=2",
+					});
+					await fetch(`${baseUrl}/items/9?x=1`, { method: "PUT" });
+					await vi.waitFor(() =>
+						expect(updates).toEqual([
+							"express://app/status",
+							"express://app/items/all?page=2",
+						]),
+					);
+					expect(mutations).toEqual([
+						{
+							method: "PUT",
+							route: "/items/:id",
+							path: "/items/9",
+							params: { id: "9" },
+							status: 200,
+						},
+					]);
+				},
+			);
+		});
+
+		it("serves resources through MCPServer in local mode", async () => {
+			const { mcp } = await createApp({
+				resources: true,
+				inputSchemaStyle: "sections",
+			});
+			const local = new MCPServer({ expressMcp: mcp });
+			const read = await local.handleRequest({
+				method: "resources/read",
+				params: { uri: "express://app/items/3?verbose=no" },
+			});
+			expect(read).toMatchObject({
+				contents: [
+					{
+						uri: "express://app/items/3?verbose=no",
+						text: JSON.stringify({ id: "3", verbose: "no" }, null, 2),
+					},
+				],
+			});
+			await mcp.close();
+		});
+	},
+);
+
+describe("Resource paths", () => {
+	it("skips routes without a URI template form", async () => {
+		const warnings: unknown[][] = [];
+		const app = expressVersions[0].express();
+		app.get("/files/:name?", (_req, res) => res.send("file"));
+		const mcp = new ExpressMCP(app, {
+			resources: true,
+			logging: { ...silent, warn: (...a: unknown[]) => warnings.push(a) },
+		});
+		await mcp.init();
+		expect(mcp.listResourceTemplates()).toEqual([]);
+		expect(String(warnings[0][0])).toContain(
+			"Not exposing GET /files/:name? as a resource",
+		);
+	});
+});
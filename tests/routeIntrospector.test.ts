@@ -1,24 +1,274 @@
 import express from "express";
+import express5 from "express5";
 import { describe, expect, it } from "vitest";
-import { RouteIntrospector } from "../src/routeIntrospector";
+import { ExpressMCP } from "../src";
+import {
+	type Layer,
+	RouteIntrospector,
+	matcherRegExp,
+} from "../src/routeIntrospector";
+import { expressVersions } from "./expressVersions";
 
-describe("RouteIntrospector", () => {
-	it("discovers routes and methods", () => {
+describe.each(expressVersions)(
+	"RouteIntrospector (express $version)",
+	({ version, express }) => {
+		it("discovers routes and methods", () => {
+			const app = express();
+			app.get("/hello", (_req, res) => res.send("ok"));
+
+			// Express 4 lazily creates the router, so we need to trigger it
+			// by calling app.handle or by accessing the internal router
+			const router = (app as unknown as { _router?: unknown })._router;
+			if (!router && version === 4) {
+				// Force router creation by calling lazyrouter
+				(app as unknown as { lazyrouter: () => void }).lazyrouter();
+			}
+
+			const ri = new RouteIntrospector(app);
+			const routes = ri.listRoutes();
+			expect(
+				routes.some((r) => r.method === "GET" && r.path === "/hello"),
+			).toBe(true);
+		});
+	},
+);
+
+describe("RouteIntrospector mount paths", () => {
+	it("prefixes routes with the mount paths of nested routers", () => {
+		const app = express();
+		const users = express.Router({ mergeParams: true });
+		users.get("/", (_req, res) => res.send("list"));
+		users.get("/:postId", (_req, res) => res.send("one"));
+
+		const v1 = express.Router();
+		v1.get("/users", (_req, res) => res.send("users"));
+		v1.use("/users/:userId/posts", users);
+
+		app.use("/api/v1", v1);
+		app.use(["/m1", "/m2"], users);
+		app.use("/n/:num(\\d+)/:opt?", users);
+		app.use(users);
+
+		const paths = new RouteIntrospector(app)
+			.listRoutes()
+			.map((r) => `${r.method} ${r.path}`);
+
+		expect(paths).toEqual([
+			"GET /api/v1/users",
+			"GET /api/v1/users/:userId/posts",
+			"GET /api/v1/users/:userId/posts/:postId",
+			"GET /m1",
+			"GET /m1/:postId",
+			"GET /m2",
+			"GET /m2/:postId",
+			"GET /n/:num(\\d+)/:opt?",
+			"GET /n/:num(\\d+)/:opt?/:postId",
+			"GET /",
+			"GET /:postId",
+		]);
+	});
+
+	it("skips routers mounted on a hand-written RegExp", () => {
 		const app = express();
-		app.get("/hello", (_req, res) => res.send("ok"));
-
-		// Express lazily creates the router, so we need to trigger it
-		// by calling app.handle or by accessing the internal router
-		const router = (app as unknown as { _router?: unknown })._router;
-		if (!router) {
-			// Force router creation by calling lazyrouter
-			(app as unknown as { lazyrouter: () => void }).lazyrouter();
-		}
-
-		const ri = new RouteIntrospector(app);
-		const routes = ri.listRoutes();
-		expect(routes.some((r) => r.method === "GET" && r.path === "/hello")).toBe(
-			true,
+		const router = express.Router();
+		router.get("/x", (_req, res) => res.send("x"));
+		app.use(/^\/v\d+/, router);
+
+		expect(new RouteIntrospector(app).listRoutes()).toEqual([]);
+	});
+
+	it("reads mount paths from Express 5 matchers", () => {
+		const app = express5();
+		const posts = express5.Router({ mergeParams: true });
+		posts.get("/", (_req, res) => res.send("list"));
+		posts.get("/:postId", (_req, res) => res.send("one"));
+		const v1 = express5.Router();
+		v1.use("/users/:userId/posts", posts);
+		app.use("/api/v1", v1);
+		app.use(["/m1", "/m2"], posts);
+		app.use("/files/*rest", posts);
+		app.use("/a-:b.:c{/:d}", posts);
+		app.use(posts);
+
+		const paths = new RouteIntrospector(app)
+			.listRoutes()
+			.map((r) => `${r.method} ${r.path}`);
+
+		expect(paths).toEqual([
+			"GET /api/v1/users/:userId/posts",
+			"GET /api/v1/users/:userId/posts/:postId",
+			"GET /m1",
+			"GET /m1/:postId",
+			"GET /m2",
+			"GET /m2/:postId",
+			"GET /files/*rest",
+			"GET /files/*rest/:postId",
+			"GET /a-:b.:c/:d",
+			"GET /a-:b.:c/:d/:postId",
+			"GET /a-:b.:c",
+			"GET /a-:b.:c/:postId",
+			"GET /",
+			"GET /:postId",
+		]);
+	});
+
+	it("skips Express 5 routers mounted on a hand-written RegExp", () => {
+		const app = express5();
+		const router = express5.Router();
+		router.get("/x", (_req, res) => res.send("x"));
+		app.use(/^\/v\d+/, router);
+
+		const warnings: unknown[] = [];
+		const logging = {
+			info: () => undefined,
+			error: () => undefined,
+			warn: (msg: unknown) => warnings.push(msg),
+		};
+		expect(new RouteIntrospector(app).listRoutes({ logging })).toEqual([]);
+		expect(warnings).toHaveLength(1);
+	});
+
+	// Mount paths are decoded from this exact shape; a router upgrade that
+	// changes it must fail here rather than drop routes quietly
+	it("pins the regexp shape of Express 5 mount matchers", () => {
+		const app = express5();
+		app.use("/api/:id", express5.Router());
+		const [matcher] = lastLayer(app).matchers ?? [];
+
+		expect(matcher.name).toBe("match");
+		expect(matcherRegExp(matcher)?.source).toBe(
+			"^(?:\\/api\\/([^\\/]+))(?:\\/$)?(?=\\/|$)",
 		);
+		expect(RegExp.prototype.exec).toBe(execBefore);
+	});
+
+	it("warns when an Express 5 mount path cannot be decoded", () => {
+		const app = express5();
+		const router = express5.Router();
+		router.get("/x", (_req, res) => res.send("x"));
+		app.use("/api", router);
+		// A matcher of some other router version, with no regexp to read
+		lastLayer(app).matchers = [
+			(path: string) => path.startsWith("/api") && { path: "/api", params: {} },
+		];
+
+		const warnings: unknown[] = [];
+		const logging = {
+			info: () => undefined,
+			error: () => undefined,
+			warn: (msg: unknown) => warnings.push(msg),
+		};
+		expect(new RouteIntrospector(app).listRoutes({ logging })).toEqual([]);
+		expect(warnings).toEqual([
+			"Skipping router under '/': its Express 5 mount path could not be decoded, this router version may not be supported",
+		]);
 	});
 });
+
+const execBefore = RegExp.prototype.exec;
+
+/** The layer of an Express 5 app's last `use`. */
+function lastLayer(app: ReturnType<typeof express5>) {
+	const { stack } = (app as unknown as { router: { stack: Layer[] } }).router;
+	return stack[stack.length - 1];
+}
+
+describe.each(expressVersions)(
+	"RouteIntrospector route shapes (express $version)",
+	({ express }) => {
+		const list = (app: ReturnType<typeof express>, options = {}) =>
+			new RouteIntrospector(app)
+				.listRoutes(options)
+				.map((r) => `${r.method} ${r.path}`);
+
+		it("expands app.all into concrete methods", () => {
+			const app = express();
+			app.get("/any", (_req, res) => res.send("get"));
+			app.all("/any", (_req, res) => res.send("all"));
+
+			expect(list(app)).toEqual([
+				"GET /any",
+				"POST /any",
+				"PUT /any",
+				"PATCH /any",
+				"DELETE /any",
+			]);
+			expect(list(app, { allMethods: ["get", "post"] })).toEqual([
+				"GET /any",
+				"POST /any",
+			]);
+		});
+
+		it("picks the handler of each method in a route() chain", async () => {
+			const app = express();
+			const getItem = () => undefined;
+			const putItem = () => undefined;
+			app.route("/items/:id").get(getItem).put(putItem);
+
+			const routes = new RouteIntrospector(app).listRoutes();
+			expect(routes.map((r) => [r.method, r.handler])).toEqual([
+				["GET", getItem],
+				["PUT", putItem],
+			]);
+		});
+
+		it("fans array paths out into separate routes", () => {
+			const app = express();
+			app.get(["/a", "/b"], (_req, res) => res.send("ok"));
+			expect(list(app)).toEqual(["GET /a", "GET /b"]);
+		});
+
+		it("skips RegExp routes unless they are named", () => {
+			const app = express();
+			const router = express.Router();
+			router.get(/^\/v\d+\/status$/, (_req, res) => res.send("ok"));
+			app.use("/api", router);
+
+			const warnings: unknown[] = [];
+			const logging = {
+				info: () => undefined,
+				error: () => undefined,
+				warn: (msg: unknown) => warnings.push(msg),
+			};
+			expect(list(app, { logging })).toEqual([]);
+			expect(warnings).toHaveLength(1);
+
+			expect(
+				list(app, {
+					logging,
+					nameRegExpRoute: (re: RegExp) =>
+						re.test("/v1/status") ? "/v1/status" : undefined,
+				}),
+			).toEqual(["GET /api/v1/status"]);
+		});
+
+		it("only exposes methods allowed by the policy", async () => {
+			const app = express();
+			app.get("/x", (_req, res) => res.send("get"));
+			app.head("/x", (_req, res) => res.end());
+			app.options("/x", (_req, res) => res.end());
+			app.all("/y", (_req, res) => res.send("all"));
+
+			expect(list(app)).toEqual([
+				"GET /x",
+				"GET /y",
+				"POST /y",
+				"PUT /y",
+				"PATCH /y",
+				"DELETE /y",
+			]);
+			expect(list(app, { methods: ["get", "head"] })).toEqual([
+				"GET /x",
+				"HEAD /x",
+				"GET /y",
+				"HEAD /y",
+			]);
+
+			const mcp = new ExpressMCP(app, { methods: ["GET"] });
+			await mcp.init();
+			expect(
+				(mcp.listTools() as { name: string }[]).map((t) => t.name),
+			).toEqual(["GET_/x", "GET_/y"]);
+		});
+	},
+);
@@ -0,0 +1,166 @@
+import express from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { ExpressMCP, type RouteInfo } from "../src";
+import { SchemaResolver } from "../src/schemaResolver";
+
+const route = (method: string, path: string): RouteInfo => ({
+	method,
+	path,
+	middlewares: [],
+	handler: () => undefined,
+});
+
+const openapi = {
+	openapi: "3.0.0",
+	paths: {
+		"/items/:id": {
+			parameters: [{ name: "X-Tenant", in: "header", required: true }],
+			put: {
+				parameters: [
+					{
+						name: "dryRun",
+						in: "query",
+						schema: { type: "boolean" },
+						description: "Validate only",
+					},
+				],
+				requestBody: {
+					required: true,
+					content: {
+						"application/json": {
+							schema: {
+								type: "object",
+								properties: { name: { type: "string" } },
+								required: ["name"],
+							},
+						},
+					},
+				},
+			},
+		},
+	},
+};
+
+describe("SchemaResolver input schemas", () => {
+	it("flattens params with x-in annotations by default", () => {
+		const resolver = new SchemaResolver({ openapi });
+		const tool = resolver.toTool(route("PUT", "/items/:id"));
+
+		expect(tool.inputSchema).toEqual({
+			type: "object",
+			properties: {
+				id: { type: "string", "x-in": "path" },
+				"X-Tenant": { type: "string", "x-in": "header" },
+				dryRun: {
+					type: "boolean",
+					description: "Validate only",
+					"x-in": "query",
+				},
+				name: { type: "string", "x-in": "body" },
+			},
+			required: ["id", "X-Tenant", "name"],
+			additionalProperties: true,
+		});
+		expect(resolver.argLayout(route("PUT", "/items/:id"))).toEqual({
+			sections: false,
+			locations: {
+				id: "path",
+				"X-Tenant": "header",
+				dryRun: "query",
+				name: "body",
+			},
+		});
+	});
+
+	it("builds params/query/headers/body sections", () => {
+		const resolver = new SchemaResolver({
+			openapi,
+			inputSchemaStyle: "sections",
+		});
+		const tool = resolver.toTool(route("PUT", "/items/:id"));
+
+		expect(tool.inputSchema).toMatchObject({
+			type: "object",
+			properties: {
+				params: {
+					properties: { id: { type: "string" } },
+					required: ["id"],
+					additionalProperties: false,
+				},
+				query: { properties: { dryRun: { type: "boolean" } } },
+				headers: { required: ["X-Tenant"] },
+				body: { required: ["name"] },
+			},
+			required: ["params", "headers", "body"],
+			additionalProperties: false,
+		});
+	});
+
+	it("reads zod annotations per section and path constraints", () => {
+		const resolver = new SchemaResolver({
+			schemaAnnotations: {
+				"GET /orders/:orderId(\\d+)": {
+					input: z.object({ expand: z.boolean().optional() }),
+					headers: z.object({ "x-api-key": z.string() }),
+				},
+			},
+		});
+		const tool = resolver.toTool(route("GET", "/orders/:orderId(\\d+)"));
+
+		expect(tool.inputSchema).toMatchObject({
+			properties: {
+				orderId: { type: "string", pattern: "^(?:\\d+)$", "x-in": "path" },
+				expand: { type: "boolean", "x-in": "query" },
+				"x-api-key": { type: "string", "x-in": "header" },
+			},
+			required: ["orderId", "x-api-key"],
+		});
+	});
+
+	it("keeps a lone body schema unchanged", () => {
+		const input = { type: "object", properties: { a: { type: "string" } } };
+		const resolver = new SchemaResolver({
+			schemaAnnotations: { "POST /a": { input } },
+		});
+		expect(resolver.toTool(route("POST", "/a")).inputSchema).toEqual(input);
+	});
+
+	it("dispatches sectioned args through the gateway", async () => {
+		const app = express();
+		app.use(express.json());
+		app.patch("/items/:id", (req, res) =>
+			res.json({
+				id: req.params.id,
+				query: req.query,
+				tenant: req.headers["x-tenant"],
+				body: req.body,
+			}),
+		);
+
+		const mcp = new ExpressMCP(app, { inputSchemaStyle: "sections" });
+		await mcp.init();
+		mcp.mount("/mcp");
+
+		const rsp = await request(app)
+			.post("/mcp/invoke")
+			.send({
+				toolName: "PATCH_/items/:id",
+				args: {
+					params: { id: "5" },
+					query: { notify: "yes" },
+					headers: { "X-Tenant": "acme" },
+					body: { name: "Gadget" },
+				},
+			})
+			.expect(200);
+
+		expect(rsp.body.result).toEqual({
+			id: "5",
+			query: { notify: "yes" },
+			tenant: "acme",
+			body: { name: "Gadget" },
+		});
+	});
+});
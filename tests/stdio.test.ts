@@ -0,0 +1,68 @@
+import { PassThrough } from "node:stream";
+import express from "express";
+import { describe, expect, it } from "vitest";
+import { ExpressMCP } from "../src";
+
+describe("stdio transport", () => {
+	it("serves MCP over in-process streams", async () => {
+		const app = express();
+		app.use(express.json());
+		app.get("/hello/:name", (req, res) =>
+			res.json({ greeting: `hello ${req.params.name}` }),
+		);
+
+		const mcp = new ExpressMCP(app);
+		await mcp.init();
+
+		const stdin = new PassThrough();
+		const stdout = new PassThrough();
+		await mcp.startStdio({ stdin, stdout });
+
+		let buffered = "";
+		const pending = new Map<number, (msg: unknown) => void>();
+		stdout.on("data", (chunk) => {
+			buffered += chunk.toString();
+			let newline = buffered.indexOf("\n");
+			while (newline >= 0) {
+				const msg = JSON.parse(buffered.slice(0, newline));
+				buffered = buffered.slice(newline + 1);
+				pending.get(msg.id)?.(msg);
+				newline = buffered.indexOf("\n");
+			}
+		});
+		let nextId = 1;
+		const rpc = (method: string, params: unknown = {}) =>
+			new Promise<{ result: Record<string, any> }>((resolve) => {
+				const id = nextId++;
+				pending.set(id, resolve as (msg: unknown) => void);
+				stdin.write(
+					`${JSON.stringify({ jsonrpc: "2.0", id, method, params })}\n`,
+				);
+			});
+
+		const init = await rpc("initialize", {
+			protocolVersion: "2025-06-18",
+			capabilities: {},
+			clientInfo: { name: "test", version: "1.0.0" },
+		});
+		expect(init.result.serverInfo.name).toBe("expressjs-mcp");
+		stdin.write(
+			`${JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })}\n`,
+		);
+
+		const list = await rpc("tools/list");
+		expect(list.result.tools.map((t: { name: string }) => t.name)).toEqual([
+			"GET_/hello/:name",
+		]);
+
+		const call = await rpc("tools/call", {
+			name: "GET_/hello/:name",
+			arguments: { name: "stdio" },
+		});
+		expect(JSON.parse(call.result.content[0].text)).toEqual({
+			greeting: "hello stdio",
+		});
+
+		await mcp.close();
+	});
+});
@@ -0,0 +1,288 @@
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import express, {
+	type NextFunction,
+	type Request,
+	type Response,
+} from "express";
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+	AccessDeniedError,
+	type ExpressMCPOptions,
+	RemoteToolSource,
+	bearerAuth,
+} from "../src";
+import {
+	Controller,
+	Delete,
+	Get,
+	RequireRoles,
+	RequireScopes,
+	registerController,
+} from "../src/decorators";
+import { mountMcp } from "./helpers";
+
+@Controller("/orders")
+class OrdersController {
+	@RequireScopes("orders:read")
+	@Get("/")
+	list(_req: Request, res: Response) {
+		res.json([]);
+	}
+
+	@Delete("/:id")
+	@RequireRoles("admin", "support")
+	@RequireScopes("orders:write")
+	remove(_req: Request, res: Response) {
+		res.status(204).end();
+	}
+}
+
+const openapi = {
+	openapi: "3.0.0",
+	info: { title: "Shop", version: "1" },
+	security: [{ oauth2: ["shop"] }],
+	paths: {
+		"/reports": {
+			get: {
+				// Either scheme will do; both need `reports:read`
+				security: [
+					{ oauth2: ["reports:read", "reports:export"] },
+					{ apiKey: [], oauth2: ["reports:read"] },
+				],
+				responses: { "200": { description: "Reports" } },
+			},
+		},
+		"/status": {
+			get: { security: [{}], responses: { "200": { description: "OK" } } },
+		},
+	},
+};
+
+const users: Record<
+	string,
+	{ id: string; scopes: string[]; roles?: string[] }
+> = {
+	reader: { id: "reader", scopes: ["orders:read"] },
+	clerk: { id: "clerk", scopes: ["orders:read", "orders:write"] },
+	admin: {
+		id: "admin",
+		scopes: ["orders:read", "orders:write", "shop", "reports:read"],
+		roles: ["admin"],
+	},
+};
+
+const createApp = async (options: ExpressMCPOptions = {}) => {
+	const app = express();
+	app.use(express.json());
+	registerController(app, new OrdersController());
+	app.get("/reports", (_req, res) => res.json([]));
+	app.get("/status", (_req, res) => res.json({ ok: true }));
+	app.post("/refunds", (_req, res) => res.json({ ok: true }));
+	return mountMcp(app, {
+		openapi,
+		schemaAnnotations: { "POST /refunds": { roles: ["finance"] } },
+		auth: { authenticate: bearerAuth((token) => users[token]) },
+		...options,
+	});
+};
+
+const toolNames = async (app: express.Express, token: string) => {
+	const res = await request(app)
+		.get("/mcp/tools")
+		.set("Authorization", `Bearer ${token}`);
+	return (res.body.tools as { name: string }[]).map((t) => t.name);
+};
+
+describe("Per-tool access requirements", () => {
+	it("collects requirements from decorators, annotations and OpenAPI", async () => {
+		const { mcp } = await createApp({ auth: { enabled: false } });
+		const access = Object.fromEntries(
+			mcp.listTools().map((t) => [t.name, t.access]),
+		);
+		expect(access).toEqual({
+			"GET_/orders/": { scopes: ["orders:read"] },
+			"DELETE_/orders/:id": {
+				scopes: ["orders:write"],
+				roles: ["admin", "support"],
+			},
+			"GET_/reports": { scopes: ["reports:read"] },
+			"GET_/status": undefined,
+			"POST_/refunds": { roles: ["finance"] },
+		});
+		await mcp.close();
+	});
+
+	it("lists only the tools a caller may use", async () => {
+		const { app, mcp } = await createApp();
+		expect(await toolNames(app, "reader")).toEqual([
+			"GET_/orders/",
+			"GET_/status",
+		]);
+		expect(await toolNames(app, "admin")).toEqual([
+			"GET_/orders/",
+			"DELETE_/orders/:id",
+			"GET_/reports",
+			"GET_/status",
+		]);
+		await mcp.close();
+	});
+
+	it("rejects /invoke calls before dispatching", async () => {
+		const { app, mcp } = await createApp();
+		const res = await request(app)
+			.post("/mcp/invoke")
+			.set("Authorization", "Bearer clerk")
+			.send({ toolName: "DELETE_/orders/:id", args: { id: "1" } });
+		expect(res.status).toBe(403);
+		expect(res.body).toEqual({
+			ok: false,
+			error:
+				"Tool 'DELETE_/orders/:id' requires one of the roles admin, support",
+			missing: { scopes: [], roles: ["admin", "support"] },
+		});
+		await mcp.close();
+	});
+
+	it("filters tools/list and rejects tools/call over MCP", async () => {
+		const { app, mcp } = await createApp();
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const client = new Client({ name: "test", version: "1.0.0" });
+		try {
+			await client.connect(
+				new StreamableHTTPClientTransport(
+					new URL(`http://127.0.0.1:${port}/mcp`),
+					{ requestInit: { headers: { Authorization: "Bearer reader" } } },
+				),
+			);
+			const { tools } = await client.listTools();
+			expect(tools.map((t) => t.name)).toEqual(["GET_/orders/", "GET_/status"]);
+			await expect(client.callTool({ name: "GET_/reports" })).rejects.toThrow(
+				/Tool 'GET_\/reports' requires scope reports:read/,
+			);
+			const ok = await client.callTool({ name: "GET_/orders/" });
+			expect(ok.isError).toBe(false);
+		} finally {
+			await client.close();
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("checks results against the outputSchema the caller was shown", async () => {
+		const { app, mcp } = await createApp({
+			schemaAnnotations: {
+				"GET /reports": { output: z.object({ total: z.number() }) },
+			},
+		});
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const client = new Client({ name: "test", version: "1.0.0" });
+		try {
+			await client.connect(
+				new StreamableHTTPClientTransport(
+					new URL(`http://127.0.0.1:${port}/mcp`),
+					{ requestInit: { headers: { Authorization: "Bearer admin" } } },
+				),
+			);
+			// The route answers an array, not the promised object
+			const got = await client.callTool({ name: "GET_/reports" });
+			expect(got.isError).toBe(true);
+		} finally {
+			await client.close();
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("gives callers without a principal no access while auth is on", async () => {
+		// Middleware that lets anyone through, or sets `req.auth` claims
+		const jwt = (req: Request, _res: Response, next: NextFunction) => {
+			const scope = req.headers["x-scope"];
+			if (scope) Object.assign(req, { auth: { sub: "svc", scope } });
+			next();
+		};
+		const { app, mcp } = await createApp({ auth: { middleware: jwt } });
+		const tools = await request(app).get("/mcp/tools");
+		expect(tools.body.tools.map((t: { name: string }) => t.name)).toEqual([
+			"GET_/status",
+		]);
+		const denied = await request(app)
+			.post("/mcp/invoke")
+			.send({ toolName: "GET_/orders/", args: {} });
+		expect(denied.status).toBe(403);
+		const allowed = await request(app)
+			.post("/mcp/invoke")
+			.set("X-Scope", "orders:read")
+			.send({ toolName: "GET_/orders/", args: {} });
+		expect(allowed.body).toMatchObject({ ok: true, status: 200 });
+		await mcp.close();
+	});
+
+	it("lists only the resources and prompts a caller may use", async () => {
+		const { app, mcp } = await createApp({ resources: true, prompts: true });
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const client = new Client({ name: "test", version: "1.0.0" });
+		try {
+			await client.connect(
+				new StreamableHTTPClientTransport(
+					new URL(`http://127.0.0.1:${port}/mcp`),
+					{ requestInit: { headers: { Authorization: "Bearer reader" } } },
+				),
+			);
+			const { resources } = await client.listResources();
+			expect(resources.map((r) => r.uri)).toEqual([
+				"express://app/orders/",
+				"express://app/status",
+			]);
+			const { prompts } = await client.listPrompts();
+			expect(prompts.map((p) => p.name)).toEqual([
+				"GET_/orders/",
+				"GET_/status",
+			]);
+			await expect(client.getPrompt({ name: "GET_/reports" })).rejects.toThrow(
+				/Unknown prompt/,
+			);
+		} finally {
+			await client.close();
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("maps a remote gateway's 403 to AccessDeniedError", async () => {
+		const { app, mcp } = await createApp();
+		const server = app.listen(0);
+		const { port } = server.address() as AddressInfo;
+		const remote = new RemoteToolSource(`http://127.0.0.1:${port}/mcp`);
+		const context = { headers: { authorization: "Bearer reader" } };
+		try {
+			const tools = await remote.listTools(context);
+			expect(tools.map((t) => t.name)).toEqual(["GET_/orders/", "GET_/status"]);
+			const denied = await remote
+				.callTool("GET_/reports", {}, context)
+				.catch((e: unknown) => e);
+			expect(denied).toBeInstanceOf(AccessDeniedError);
+			expect((denied as AccessDeniedError).missing).toEqual({
+				scopes: ["reports:read"],
+				roles: [],
+			});
+		} finally {
+			await mcp.close();
+			server.close();
+		}
+	});
+
+	it("leaves calls without a principal unrestricted", async () => {
+		const { mcp } = await createApp({ auth: { enabled: false } });
+		expect(mcp.listTools({})).toHaveLength(5);
+		const rsp = await mcp.invoke("DELETE_/orders/:id", { id: "1" });
+		expect(rsp.status).toBe(204);
+		await mcp.close();
+	});
+});